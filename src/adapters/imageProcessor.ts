@@ -0,0 +1,220 @@
+import { createHash } from "crypto";
+import * as vscode from "vscode";
+import { logger } from "../logger";
+import type { LiteLLMModelInfo } from "../types";
+import { getImageDimensions, RawImage } from "./imageUtils";
+import { decodeJpeg, encodeJpeg } from "./jpegCodec";
+import { decodePng, encodePng } from "./pngCodec";
+
+/**
+ * Largest image a provider accepts, or is worth sending: providers downscale bigger images themselves,
+ * so anything past `maxDimension` only costs upload time.
+ */
+export interface ImageLimits {
+	/** Encoded size in bytes, before base64. */
+	maxBytes: number;
+	/** Longest side in pixels. */
+	maxDimension: number;
+}
+
+const MB = 1024 * 1024;
+
+/** Anthropic rejects images over 5 MB of base64 and resizes anything over 1568px on the long side. */
+const ANTHROPIC_LIMITS: ImageLimits = { maxBytes: 3.75 * MB, maxDimension: 1568 };
+/** Gemini caps inline data per request, so images are kept well below it. */
+const GEMINI_LIMITS: ImageLimits = { maxBytes: 7 * MB, maxDimension: 3072 };
+/** OpenAI fits high-detail images into 2048x2048. */
+const DEFAULT_LIMITS: ImageLimits = { maxBytes: 5 * MB, maxDimension: 2048 };
+
+/** Re-encoding steps tried, in order, when an image is still too large after downscaling. */
+const JPEG_QUALITIES = [85, 70, 55];
+const MIN_DIMENSION = 64;
+const CACHE_MAX_ENTRIES = 32;
+
+export const OMITTED_IMAGE_TEXT = "[Image omitted: only the most recent images are sent to the model]";
+export const OVERSIZED_IMAGE_TEXT = "[Image omitted: too large to send to this model]";
+
+interface PreparedImage {
+	data: Uint8Array;
+	mimeType: string;
+}
+
+/** Prepared images by content hash and limits; chat history resends the same images every turn. */
+const preparedImages = new Map<string, PreparedImage | null>();
+
+/**
+ * Image limits of the provider that serves a model.
+ */
+export function getImageLimits(modelId: string, modelInfo?: LiteLLMModelInfo): ImageLimits {
+	const provider = modelInfo?.litellm_provider ?? "";
+	if (/claude|anthropic/i.test(modelId) || /anthropic|bedrock/i.test(provider)) {
+		return ANTHROPIC_LIMITS;
+	}
+	if (/gemini/i.test(modelId) || /gemini|vertex/i.test(provider)) {
+		return GEMINI_LIMITS;
+	}
+	return DEFAULT_LIMITS;
+}
+
+/**
+ * Fit the images of a request to the provider's limits and keep only the `maxCount` most recent ones.
+ * Dropped images are replaced by a short note so the model knows something was attached. Messages
+ * without changes are returned as is.
+ */
+export function prepareImages(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	limits: ImageLimits,
+	maxCount: number
+): vscode.LanguageModelChatRequestMessage[] {
+	let seen = 0;
+	let omitted = 0;
+	const result = [...messages];
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i];
+		let changed = false;
+		const content = [...message.content];
+		for (let j = content.length - 1; j >= 0; j--) {
+			const part = content[j];
+			if (!(part instanceof vscode.LanguageModelDataPart) || !part.mimeType.startsWith("image/")) {
+				continue;
+			}
+			seen++;
+			if (seen > maxCount) {
+				omitted++;
+				content[j] = new vscode.LanguageModelTextPart(OMITTED_IMAGE_TEXT);
+				changed = true;
+				continue;
+			}
+			const prepared = fitImage(part.data, part.mimeType, limits);
+			if (!prepared) {
+				logger.warn(
+					`Dropped a ${part.mimeType} image of ${part.data.length} bytes that cannot be fit to the model's limits`
+				);
+				content[j] = new vscode.LanguageModelTextPart(OVERSIZED_IMAGE_TEXT);
+				changed = true;
+			} else if (prepared.data !== part.data) {
+				content[j] = new vscode.LanguageModelDataPart(prepared.data, prepared.mimeType);
+				changed = true;
+			}
+		}
+		if (changed) {
+			result[i] = { role: message.role, content, name: message.name };
+		}
+	}
+	if (omitted > 0) {
+		logger.info(`Omitted ${omitted} older image(s); at most ${maxCount} images are sent per request`);
+	}
+	return result;
+}
+
+/**
+ * Downscale and re-encode a PNG or JPEG until it fits the limits. Other formats pass through when they
+ * are small enough.
+ * @returns The image to send (the input itself when it already fits), or undefined when it cannot fit.
+ */
+export function fitImage(data: Uint8Array, mimeType: string, limits: ImageLimits): PreparedImage | undefined {
+	const dimensions = getImageDimensions(data);
+	const oversized = dimensions !== undefined && Math.max(dimensions.width, dimensions.height) > limits.maxDimension;
+	if (!oversized && data.length <= limits.maxBytes) {
+		return { data, mimeType };
+	}
+
+	const key = `${createHash("sha1").update(data).digest("hex")}:${limits.maxBytes}:${limits.maxDimension}`;
+	const cached = preparedImages.get(key);
+	if (cached !== undefined) {
+		return cached ?? undefined;
+	}
+	const prepared = reencode(data, mimeType, limits);
+	preparedImages.set(key, prepared ?? null);
+	if (preparedImages.size > CACHE_MAX_ENTRIES) {
+		preparedImages.delete(preparedImages.keys().next().value as string);
+	}
+	return prepared;
+}
+
+function reencode(data: Uint8Array, mimeType: string, limits: ImageLimits): PreparedImage | undefined {
+	const decoded = mimeType === "image/png" ? decodePng(data) : mimeType === "image/jpeg" ? decodeJpeg(data) : undefined;
+	if (!decoded) {
+		// Unsupported formats and variants go out unchanged when the provider can take them
+		return data.length <= limits.maxBytes ? { data, mimeType } : undefined;
+	}
+
+	const startedAt = Date.now();
+	let image = decoded;
+	const scale = Math.min(1, limits.maxDimension / Math.max(image.width, image.height));
+	if (scale < 1) {
+		image = resizeImage(image, Math.round(image.width * scale), Math.round(image.height * scale));
+	}
+
+	let result: PreparedImage =
+		mimeType === "image/png"
+			? { data: encodePng(image), mimeType }
+			: { data: encodeJpeg(image, JPEG_QUALITIES[0]), mimeType: "image/jpeg" };
+	// Screenshots compress far better as JPEG once PNG no longer fits
+	for (const quality of JPEG_QUALITIES) {
+		if (result.data.length <= limits.maxBytes) {
+			break;
+		}
+		result = { data: encodeJpeg(image, quality), mimeType: "image/jpeg" };
+	}
+	while (result.data.length > limits.maxBytes && Math.min(image.width, image.height) > MIN_DIMENSION) {
+		image = resizeImage(image, Math.round(image.width * 0.75), Math.round(image.height * 0.75));
+		result = { data: encodeJpeg(image, JPEG_QUALITIES[JPEG_QUALITIES.length - 1]), mimeType: "image/jpeg" };
+	}
+
+	logger.debug(
+		`Resized ${mimeType} image from ${decoded.width}x${decoded.height} (${data.length} bytes) to ` +
+			`${image.width}x${image.height} ${result.mimeType} (${result.data.length} bytes) in ${Date.now() - startedAt}ms`
+	);
+	return result.data.length <= limits.maxBytes ? result : undefined;
+}
+
+/**
+ * Resample an image with an area average, which keeps thin lines and small text readable when downscaling.
+ */
+export function resizeImage(image: RawImage, width: number, height: number): RawImage {
+	width = Math.max(1, width);
+	height = Math.max(1, height);
+	const horizontal = resampleAxis(image.data, image.width, image.height, width, true);
+	const data = resampleAxis(horizontal, width, image.height, height, false);
+	return { width, height, data };
+}
+
+/**
+ * Resample rows (`alongRows`) or columns of an RGBA buffer to a new length.
+ */
+function resampleAxis(
+	source: Uint8Array,
+	width: number,
+	height: number,
+	target: number,
+	alongRows: boolean
+): Uint8Array {
+	const length = alongRows ? width : height;
+	const lines = alongRows ? height : width;
+	const outWidth = alongRows ? target : width;
+	const out = new Uint8Array(outWidth * (alongRows ? height : target) * 4);
+	const ratio = length / target;
+	const sums = new Float64Array(4);
+	for (let line = 0; line < lines; line++) {
+		for (let t = 0; t < target; t++) {
+			const start = t * ratio;
+			const end = Math.min(length, start + ratio);
+			sums.fill(0);
+			let total = 0;
+			for (let s = Math.floor(start); s < end; s++) {
+				const weight = Math.min(end, s + 1) - Math.max(start, s);
+				const index = (alongRows ? line * width + s : s * width + line) * 4;
+				for (let c = 0; c < 4; c++) {
+					sums[c] += source[index + c] * weight;
+				}
+				total += weight;
+			}
+			const outIndex = (alongRows ? line * outWidth + t : t * outWidth + line) * 4;
+			for (let c = 0; c < 4; c++) {
+				out[outIndex + c] = Math.round(sums[c] / total);
+			}
+		}
+	}
+	return out;
+}
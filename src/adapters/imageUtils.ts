@@ -0,0 +1,88 @@
+/**
+ * Pixel dimensions of an encoded image.
+ */
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+/**
+ * Decoded image as 8-bit RGBA pixels, row by row.
+ */
+export interface RawImage extends ImageDimensions {
+	data: Uint8Array;
+}
+
+/**
+ * Largest image the codecs decode, in pixels. Decoding runs synchronously on the extension host and
+ * takes four bytes per pixel, so larger images are passed through or omitted instead.
+ */
+export const MAX_DECODED_PIXELS = 50_000_000;
+
+/**
+ * Read the pixel dimensions from a PNG, JPEG, GIF or WebP header without decoding the image.
+ * @returns The dimensions, or undefined when the format is unknown or the header is malformed.
+ */
+export function getImageDimensions(data: Uint8Array): ImageDimensions | undefined {
+	if (data.length < 24) {
+		return undefined;
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	// PNG: 8-byte signature followed by the IHDR chunk
+	if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+		return { width: view.getUint32(16), height: view.getUint32(20) };
+	}
+
+	// GIF: logical screen descriptor right after the "GIF8xa" signature
+	if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+		return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+	}
+
+	// WebP: RIFF container with a VP8, VP8L or VP8X chunk
+	if (
+		data[0] === 0x52 &&
+		data[1] === 0x49 &&
+		data[2] === 0x46 &&
+		data[3] === 0x46 &&
+		String.fromCharCode(data[8], data[9], data[10], data[11]) === "WEBP" &&
+		data.length >= 30
+	) {
+		const chunk = String.fromCharCode(data[12], data[13], data[14], data[15]);
+		if (chunk === "VP8 ") {
+			return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+		}
+		if (chunk === "VP8L") {
+			const bits = view.getUint32(21, true);
+			return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+		}
+		if (chunk === "VP8X") {
+			const width = (data[24] | (data[25] << 8) | (data[26] << 16)) + 1;
+			const height = (data[27] | (data[28] << 8) | (data[29] << 16)) + 1;
+			return { width, height };
+		}
+		return undefined;
+	}
+
+	// JPEG: walk the marker segments until a start-of-frame marker
+	if (data[0] === 0xff && data[1] === 0xd8) {
+		let offset = 2;
+		while (offset + 9 < data.length) {
+			if (data[offset] !== 0xff) {
+				return undefined;
+			}
+			const marker = data[offset + 1];
+			if (marker === 0xff) {
+				offset++;
+				continue;
+			}
+			const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+			if (isStartOfFrame) {
+				return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+			}
+			offset += 2 + view.getUint16(offset + 2);
+		}
+	}
+
+	return undefined;
+}
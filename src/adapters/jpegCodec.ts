@@ -0,0 +1,685 @@
+import { MAX_DECODED_PIXELS, RawImage } from "./imageUtils";
+
+/** Natural (row-major) index of the k-th coefficient in zigzag order. */
+const ZIGZAG = Uint8Array.from([
+	0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+	35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47,
+	55, 62, 63,
+]);
+
+/** `COSINES[x * 8 + u]` is the orthonormal DCT basis C(u)/2 * cos((2x + 1)uπ/16). */
+const COSINES = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+	for (let u = 0; u < 8; u++) {
+		COSINES[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * 0.5 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+	}
+}
+
+// Example quantization and Huffman tables from Annex K of the JPEG specification
+const LUMINANCE_QUANTIZATION = [
+	16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51,
+	87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+	72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANTIZATION = [
+	17,
+	18,
+	24,
+	47,
+	99,
+	99,
+	99,
+	99,
+	18,
+	21,
+	26,
+	66,
+	99,
+	99,
+	99,
+	99,
+	24,
+	26,
+	56,
+	99,
+	99,
+	99,
+	99,
+	99,
+	47,
+	66,
+	99,
+	99,
+	99,
+	99,
+	99,
+	99,
+	...new Array<number>(32).fill(99),
+];
+
+interface HuffmanSpec {
+	counts: number[];
+	symbols: number[];
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+	counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+	symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const DC_CHROMINANCE: HuffmanSpec = {
+	counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+	symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const AC_LUMINANCE: HuffmanSpec = {
+	counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+	symbols: [
+		0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14,
+		0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09,
+		0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a,
+		0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65,
+		0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88,
+		0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9,
+		0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca,
+		0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea,
+		0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+	],
+};
+const AC_CHROMINANCE: HuffmanSpec = {
+	counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+	symbols: [
+		0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32,
+		0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16,
+		0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39,
+		0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64,
+		0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86,
+		0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+		0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8,
+		0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9,
+		0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+	],
+};
+
+const clampByte = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+// ---------------------------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------------------------
+
+interface DecodingTable {
+	maxCode: Int32Array;
+	valueOffset: Int32Array;
+	symbols: Uint8Array;
+}
+
+interface FrameComponent {
+	id: number;
+	h: number;
+	v: number;
+	quantization: number;
+	/** Decoded samples, padded to whole MCUs. */
+	plane: Uint8Array;
+	planeWidth: number;
+	blocksPerLine: number;
+	blocksPerColumn: number;
+	dcTable?: DecodingTable;
+	acTable?: DecodingTable;
+	prediction: number;
+}
+
+function buildDecodingTable(counts: Uint8Array, symbols: Uint8Array): DecodingTable {
+	const maxCode = new Int32Array(18).fill(-1);
+	const valueOffset = new Int32Array(17);
+	let code = 0;
+	let index = 0;
+	for (let length = 1; length <= 16; length++) {
+		valueOffset[length] = index - code;
+		code += counts[length - 1];
+		index += counts[length - 1];
+		maxCode[length] = counts[length - 1] ? code - 1 : -1;
+		code <<= 1;
+	}
+	maxCode[17] = 0x7fffffff;
+	return { maxCode, valueOffset, symbols };
+}
+
+class BitReader {
+	private bits = 0;
+	private bitCount = 0;
+
+	constructor(
+		private readonly data: Uint8Array,
+		public position: number
+	) {}
+
+	readBit(): number {
+		if (this.bitCount === 0) {
+			let byte = 0;
+			if (this.position < this.data.length) {
+				byte = this.data[this.position];
+				if (byte === 0xff) {
+					const next = this.data[this.position + 1];
+					if (next === 0x00) {
+						this.position += 2;
+					} else {
+						// A marker ends the entropy-coded data; pad with zero bits
+						byte = 0;
+					}
+				} else {
+					this.position++;
+				}
+			}
+			this.bits = byte;
+			this.bitCount = 8;
+		}
+		this.bitCount--;
+		return (this.bits >> this.bitCount) & 1;
+	}
+
+	receive(length: number): number {
+		let value = 0;
+		for (let i = 0; i < length; i++) {
+			value = (value << 1) | this.readBit();
+		}
+		return value;
+	}
+
+	decode(table: DecodingTable): number {
+		let code = 0;
+		for (let length = 1; length <= 16; length++) {
+			code = (code << 1) | this.readBit();
+			if (code <= table.maxCode[length]) {
+				return table.symbols[table.valueOffset[length] + code];
+			}
+		}
+		throw new Error("Invalid Huffman code");
+	}
+
+	/** Skip to the data after the next restart marker. */
+	restart(): void {
+		this.bitCount = 0;
+		while (this.position + 1 < this.data.length) {
+			if (
+				this.data[this.position] === 0xff &&
+				this.data[this.position + 1] >= 0xd0 &&
+				this.data[this.position + 1] <= 0xd7
+			) {
+				this.position += 2;
+				return;
+			}
+			this.position++;
+		}
+	}
+}
+
+function extend(value: number, length: number): number {
+	return length === 0 ? 0 : value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+function inverseDct(coefficients: Float64Array, out: Uint8Array, offset: number, stride: number): void {
+	const temp = new Float64Array(64);
+	for (let y = 0; y < 8; y++) {
+		for (let x = 0; x < 8; x++) {
+			let sum = 0;
+			for (let u = 0; u < 8; u++) {
+				sum += COSINES[x * 8 + u] * coefficients[y * 8 + u];
+			}
+			temp[y * 8 + x] = sum;
+		}
+	}
+	for (let x = 0; x < 8; x++) {
+		for (let y = 0; y < 8; y++) {
+			let sum = 0;
+			for (let v = 0; v < 8; v++) {
+				sum += COSINES[y * 8 + v] * temp[v * 8 + x];
+			}
+			out[offset + y * stride + x] = clampByte(sum + 128);
+		}
+	}
+}
+
+/**
+ * Decode a baseline (sequential, 8-bit) grayscale or YCbCr JPEG into RGBA pixels.
+ * @returns The image, or undefined for malformed files, unsupported variants (progressive, CMYK, 12-bit) and
+ * images larger than {@link MAX_DECODED_PIXELS}.
+ */
+export function decodeJpeg(data: Uint8Array): RawImage | undefined {
+	try {
+		return decodeBaseline(data);
+	} catch {
+		return undefined;
+	}
+}
+
+function decodeBaseline(data: Uint8Array): RawImage | undefined {
+	if (data[0] !== 0xff || data[1] !== 0xd8) {
+		return undefined;
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const quantizationTables: Uint16Array[] = [];
+	const dcTables: DecodingTable[] = [];
+	const acTables: DecodingTable[] = [];
+	let components: FrameComponent[] = [];
+	let width = 0;
+	let height = 0;
+	let maxH = 1;
+	let maxV = 1;
+	let mcusPerLine = 0;
+	let mcusPerColumn = 0;
+	let restartInterval = 0;
+	let scanned = false;
+
+	let offset = 2;
+	while (offset + 4 <= data.length) {
+		if (data[offset] !== 0xff) {
+			offset++;
+			continue;
+		}
+		const marker = data[offset + 1];
+		if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+			offset++;
+			continue;
+		}
+		if (marker === 0xd9) {
+			break;
+		}
+		const length = view.getUint16(offset + 2);
+		const segment = offset + 4;
+		const segmentEnd = offset + 2 + length;
+
+		if (marker === 0xdb) {
+			let p = segment;
+			while (p < segmentEnd) {
+				const precision = data[p] >> 4;
+				const table = new Uint16Array(64);
+				p++;
+				for (let k = 0; k < 64; k++) {
+					table[k] = precision ? view.getUint16(p + k * 2) : data[p + k];
+				}
+				quantizationTables[data[p - 1] & 15] = table;
+				p += precision ? 128 : 64;
+			}
+		} else if (marker === 0xc0 || marker === 0xc1) {
+			if (data[segment] !== 8) {
+				return undefined;
+			}
+			height = view.getUint16(segment + 1);
+			width = view.getUint16(segment + 3);
+			if (width * height > MAX_DECODED_PIXELS) {
+				return undefined;
+			}
+			const count = data[segment + 5];
+			components = [];
+			for (let i = 0; i < count; i++) {
+				const base = segment + 6 + i * 3;
+				components.push({
+					id: data[base],
+					h: data[base + 1] >> 4 || 1,
+					v: data[base + 1] & 15 || 1,
+					quantization: data[base + 2],
+					plane: new Uint8Array(0),
+					planeWidth: 0,
+					blocksPerLine: 0,
+					blocksPerColumn: 0,
+					prediction: 0,
+				});
+			}
+			maxH = Math.max(...components.map((c) => c.h));
+			maxV = Math.max(...components.map((c) => c.v));
+			mcusPerLine = Math.ceil(width / (8 * maxH));
+			mcusPerColumn = Math.ceil(height / (8 * maxV));
+			for (const component of components) {
+				component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+				component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+				component.planeWidth = mcusPerLine * component.h * 8;
+				component.plane = new Uint8Array(component.planeWidth * mcusPerColumn * component.v * 8);
+			}
+		} else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			// Progressive, lossless and arithmetic-coded frames
+			return undefined;
+		} else if (marker === 0xc4) {
+			let p = segment;
+			while (p < segmentEnd) {
+				const tableClass = data[p] >> 4;
+				const tableId = data[p] & 15;
+				const counts = data.subarray(p + 1, p + 17);
+				const total = counts.reduce((sum, count) => sum + count, 0);
+				const table = buildDecodingTable(counts, data.slice(p + 17, p + 17 + total));
+				(tableClass === 0 ? dcTables : acTables)[tableId] = table;
+				p += 17 + total;
+			}
+		} else if (marker === 0xdd) {
+			restartInterval = view.getUint16(segment);
+		} else if (marker === 0xda) {
+			if (components.length === 0) {
+				return undefined;
+			}
+			const count = data[segment];
+			const scanComponents: FrameComponent[] = [];
+			for (let i = 0; i < count; i++) {
+				const component = components.find((c) => c.id === data[segment + 1 + i * 2]);
+				if (!component) {
+					return undefined;
+				}
+				const tables = data[segment + 2 + i * 2];
+				component.dcTable = dcTables[tables >> 4];
+				component.acTable = acTables[tables & 15];
+				scanComponents.push(component);
+			}
+			offset = decodeScan(data, segmentEnd, scanComponents, quantizationTables, {
+				mcusPerLine,
+				mcusPerColumn,
+				restartInterval,
+			});
+			scanned = true;
+			continue;
+		}
+		offset = segmentEnd;
+	}
+
+	if (!scanned || components.length === 0 || (components.length !== 1 && components.length !== 3)) {
+		return undefined;
+	}
+
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const samples = components.map(
+				(c) => c.plane[Math.floor((y * c.v) / maxV) * c.planeWidth + Math.floor((x * c.h) / maxH)]
+			);
+			const out = (y * width + x) * 4;
+			if (samples.length === 1) {
+				pixels[out] = pixels[out + 1] = pixels[out + 2] = samples[0];
+			} else {
+				const [luma, cb, cr] = samples;
+				pixels[out] = clampByte(luma + 1.402 * (cr - 128));
+				pixels[out + 1] = clampByte(luma - 0.344136 * (cb - 128) - 0.714136 * (cr - 128));
+				pixels[out + 2] = clampByte(luma + 1.772 * (cb - 128));
+			}
+			pixels[out + 3] = 255;
+		}
+	}
+	return { width, height, data: pixels };
+}
+
+/**
+ * Decode one scan into the component planes.
+ * @returns The offset right after the scan's entropy-coded data.
+ */
+function decodeScan(
+	data: Uint8Array,
+	start: number,
+	components: FrameComponent[],
+	quantizationTables: Uint16Array[],
+	frame: { mcusPerLine: number; mcusPerColumn: number; restartInterval: number }
+): number {
+	const reader = new BitReader(data, start);
+	const coefficients = new Float64Array(64);
+	for (const component of components) {
+		component.prediction = 0;
+	}
+
+	const decodeBlock = (component: FrameComponent, blockRow: number, blockColumn: number) => {
+		const quantization = quantizationTables[component.quantization];
+		if (!component.dcTable || !component.acTable || !quantization) {
+			throw new Error("Missing table");
+		}
+		coefficients.fill(0);
+		const dcLength = reader.decode(component.dcTable);
+		component.prediction += extend(reader.receive(dcLength), dcLength);
+		coefficients[0] = component.prediction * quantization[0];
+		for (let k = 1; k < 64;) {
+			const runSize = reader.decode(component.acTable);
+			const size = runSize & 15;
+			const run = runSize >> 4;
+			if (size === 0) {
+				if (run < 15) {
+					break;
+				}
+				k += 16;
+				continue;
+			}
+			k += run;
+			if (k > 63) {
+				break;
+			}
+			coefficients[ZIGZAG[k]] = extend(reader.receive(size), size) * quantization[k];
+			k++;
+		}
+		inverseDct(
+			coefficients,
+			component.plane,
+			blockRow * 8 * component.planeWidth + blockColumn * 8,
+			component.planeWidth
+		);
+	};
+
+	// A single-component scan is not interleaved and only covers the component's own blocks
+	const single = components.length === 1 ? components[0] : undefined;
+	const total = single ? single.blocksPerLine * single.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+	for (let n = 0; n < total; n++) {
+		if (frame.restartInterval && n > 0 && n % frame.restartInterval === 0) {
+			reader.restart();
+			for (const component of components) {
+				component.prediction = 0;
+			}
+		}
+		if (single) {
+			decodeBlock(single, Math.floor(n / single.blocksPerLine), n % single.blocksPerLine);
+			continue;
+		}
+		const mcuRow = Math.floor(n / frame.mcusPerLine);
+		const mcuColumn = n % frame.mcusPerLine;
+		for (const component of components) {
+			for (let v = 0; v < component.v; v++) {
+				for (let h = 0; h < component.h; h++) {
+					decodeBlock(component, mcuRow * component.v + v, mcuColumn * component.h + h);
+				}
+			}
+		}
+	}
+
+	// Continue at the next marker
+	let position = reader.position;
+	while (
+		position + 1 < data.length &&
+		!(
+			data[position] === 0xff &&
+			data[position + 1] !== 0x00 &&
+			(data[position + 1] < 0xd0 || data[position + 1] > 0xd7)
+		)
+	) {
+		position++;
+	}
+	return position;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------------------------
+
+interface EncodingTable {
+	codes: Uint16Array;
+	lengths: Uint8Array;
+}
+
+function buildEncodingTable(spec: HuffmanSpec): EncodingTable {
+	const codes = new Uint16Array(256);
+	const lengths = new Uint8Array(256);
+	let code = 0;
+	let index = 0;
+	for (let length = 1; length <= 16; length++) {
+		for (let i = 0; i < spec.counts[length - 1]; i++) {
+			const symbol = spec.symbols[index++];
+			codes[symbol] = code++;
+			lengths[symbol] = length;
+		}
+		code <<= 1;
+	}
+	return { codes, lengths };
+}
+
+class BitWriter {
+	private readonly bytes: number[] = [];
+	private buffer = 0;
+	private count = 0;
+
+	write(value: number, length: number): void {
+		for (let i = length - 1; i >= 0; i--) {
+			this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+			if (++this.count === 8) {
+				this.bytes.push(this.buffer);
+				// Byte stuffing keeps 0xFF in the data from reading as a marker
+				if (this.buffer === 0xff) {
+					this.bytes.push(0);
+				}
+				this.buffer = 0;
+				this.count = 0;
+			}
+		}
+	}
+
+	finish(): number[] {
+		if (this.count > 0) {
+			this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+		}
+		return this.bytes;
+	}
+}
+
+function scaleQuantization(base: number[], quality: number): Uint8Array {
+	const factor = quality < 50 ? 5000 / quality : 200 - quality * 2;
+	return Uint8Array.from(base, (value) => Math.min(255, Math.max(1, Math.floor((value * factor + 50) / 100))));
+}
+
+/**
+ * Encode RGBA pixels as a baseline JPEG without chroma subsampling, so text in screenshots stays legible.
+ * Transparent pixels are flattened onto white.
+ * @param quality 1 (smallest) to 100 (best).
+ */
+export function encodeJpeg(image: RawImage, quality: number): Uint8Array {
+	const { width, height, data } = image;
+	quality = Math.min(100, Math.max(1, Math.round(quality)));
+	const tables = [
+		scaleQuantization(LUMINANCE_QUANTIZATION, quality),
+		scaleQuantization(CHROMINANCE_QUANTIZATION, quality),
+	];
+	const dc = [buildEncodingTable(DC_LUMINANCE), buildEncodingTable(DC_CHROMINANCE)];
+	const ac = [buildEncodingTable(AC_LUMINANCE), buildEncodingTable(AC_CHROMINANCE)];
+
+	// Convert to YCbCr planes once
+	const planes = [new Float64Array(width * height), new Float64Array(width * height), new Float64Array(width * height)];
+	for (let i = 0; i < width * height; i++) {
+		const alpha = data[i * 4 + 3] / 255;
+		const r = data[i * 4] * alpha + 255 * (1 - alpha);
+		const g = data[i * 4 + 1] * alpha + 255 * (1 - alpha);
+		const b = data[i * 4 + 2] * alpha + 255 * (1 - alpha);
+		planes[0][i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+		planes[1][i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+		planes[2][i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+	}
+
+	const writer = new BitWriter();
+	const predictions = [0, 0, 0];
+	const block = new Float64Array(64);
+	const temp = new Float64Array(64);
+	for (let blockY = 0; blockY < height; blockY += 8) {
+		for (let blockX = 0; blockX < width; blockX += 8) {
+			for (let c = 0; c < 3; c++) {
+				// Edge blocks repeat the last row and column
+				for (let y = 0; y < 8; y++) {
+					const row = Math.min(blockY + y, height - 1) * width;
+					for (let x = 0; x < 8; x++) {
+						block[y * 8 + x] = planes[c][row + Math.min(blockX + x, width - 1)];
+					}
+				}
+				for (let y = 0; y < 8; y++) {
+					for (let u = 0; u < 8; u++) {
+						let sum = 0;
+						for (let x = 0; x < 8; x++) {
+							sum += COSINES[x * 8 + u] * block[y * 8 + x];
+						}
+						temp[y * 8 + u] = sum;
+					}
+				}
+				const quantization = tables[c === 0 ? 0 : 1];
+				const zigzag = new Int32Array(64);
+				for (let k = 0; k < 64; k++) {
+					const natural = ZIGZAG[k];
+					const u = natural & 7;
+					const v = natural >> 3;
+					let sum = 0;
+					for (let y = 0; y < 8; y++) {
+						sum += COSINES[y * 8 + v] * temp[y * 8 + u];
+					}
+					zigzag[k] = Math.round(sum / quantization[natural]);
+				}
+				encodeBlock(writer, zigzag, predictions, c, dc[c === 0 ? 0 : 1], ac[c === 0 ? 0 : 1]);
+			}
+		}
+	}
+	const scan = writer.finish();
+
+	const bytes: number[] = [0xff, 0xd8];
+	const segment = (marker: number, body: number[]) => {
+		bytes.push(0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body);
+	};
+	segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+	for (let t = 0; t < 2; t++) {
+		const table = tables[t];
+		segment(0xdb, [t, ...Array.from({ length: 64 }, (_unused, k) => table[ZIGZAG[k]])]);
+	}
+	segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+	const specs: [number, HuffmanSpec][] = [
+		[0x00, DC_LUMINANCE],
+		[0x10, AC_LUMINANCE],
+		[0x01, DC_CHROMINANCE],
+		[0x11, AC_CHROMINANCE],
+	];
+	for (const [id, spec] of specs) {
+		segment(0xc4, [id, ...spec.counts, ...spec.symbols]);
+	}
+	segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+	const out = new Uint8Array(bytes.length + scan.length + 2);
+	out.set(bytes);
+	out.set(scan, bytes.length);
+	out.set([0xff, 0xd9], bytes.length + scan.length);
+	return out;
+}
+
+function encodeBlock(
+	writer: BitWriter,
+	zigzag: Int32Array,
+	predictions: number[],
+	component: number,
+	dc: EncodingTable,
+	ac: EncodingTable
+): void {
+	const writeValue = (table: EncodingTable, symbolRun: number, value: number) => {
+		const size = value === 0 ? 0 : Math.floor(Math.log2(Math.abs(value))) + 1;
+		const symbol = (symbolRun << 4) | size;
+		writer.write(table.codes[symbol], table.lengths[symbol]);
+		if (size > 0) {
+			writer.write(value < 0 ? value + (1 << size) - 1 : value, size);
+		}
+	};
+
+	writeValue(dc, 0, zigzag[0] - predictions[component]);
+	predictions[component] = zigzag[0];
+
+	let run = 0;
+	for (let k = 1; k < 64; k++) {
+		if (zigzag[k] === 0) {
+			run++;
+			continue;
+		}
+		while (run > 15) {
+			writer.write(ac.codes[0xf0], ac.lengths[0xf0]);
+			run -= 16;
+		}
+		writeValue(ac, run, zigzag[k]);
+		run = 0;
+	}
+	if (run > 0) {
+		writer.write(ac.codes[0x00], ac.lengths[0x00]);
+	}
+}
@@ -4,10 +4,15 @@ import {
 	LiteLLMModelInfoResponse,
 	OpenAIChatCompletionRequest,
 	LiteLLMResponsesRequest,
+	LiteLLMResponseContentItem,
 	LiteLLMResponseInputItem,
 	LiteLLMResponseTool,
 	OpenAIChatMessageContentItem,
+	LiteLLMTokenCountRequest,
+	LiteLLMTokenCountResponse,
+	ProxyHealth,
 } from "../types";
+import { logger, redact } from "../logger";
 
 export class LiteLLMClient {
 	constructor(
@@ -35,18 +40,39 @@ export class LiteLLMClient {
 	}
 
 	/**
-	 * Sends a chat request to the LiteLLM proxy.
+	 * Sends a chat request to the LiteLLM proxy. `onHeaders` receives the response headers of a
+	 * successful request, e.g. to read the `x-litellm-response-cost` header. `transformResponsesBody`
+	 * can adjust the body of requests that go to `/responses` after the format conversion.
 	 */
 	async chat(
 		request: OpenAIChatCompletionRequest,
 		mode?: string,
-		token?: vscode.CancellationToken
+		token?: vscode.CancellationToken,
+		options?: {
+			onHeaders?: (headers: Headers) => void;
+			transformResponsesBody?: (body: LiteLLMResponsesRequest) => LiteLLMResponsesRequest;
+		}
 	): Promise<ReadableStream<Uint8Array>> {
 		const endpoint = this.getEndpoint(mode);
-		let body: OpenAIChatCompletionRequest | LiteLLMResponsesRequest = request;
+		const { extra_body: extraBody, ...chatRequest } = request;
+		let body: OpenAIChatCompletionRequest | LiteLLMResponsesRequest = chatRequest;
 
 		if (endpoint === "/responses") {
-			body = this.transformToResponsesFormat(request);
+			body = this.transformToResponsesFormat(chatRequest);
+			if (options?.transformResponsesBody) {
+				body = options.transformResponsesBody(body);
+			}
+		} else if (request.stream) {
+			// Ask for a final usage chunk; /responses reports usage in `response.completed` instead
+			body = { ...chatRequest, stream_options: { include_usage: true } };
+		}
+		if (extraBody) {
+			body = { ...extraBody, ...body };
+		}
+
+		logger.debug(`POST ${this.config.url}${endpoint}`);
+		if (logger.isTraceEnabled) {
+			logger.trace(`Request body: ${JSON.stringify(redact(body))}`);
 		}
 
 		const response = await this.fetchWithRateLimit(
@@ -61,6 +87,7 @@ export class LiteLLMClient {
 
 		if (!response.ok) {
 			const errorText = await response.text();
+			logger.warn(`${endpoint} returned ${response.status} ${response.statusText}`);
 			throw new Error(`LiteLLM API error: ${response.status} ${response.statusText}\n${errorText}`);
 		}
 
@@ -68,11 +95,88 @@ export class LiteLLMClient {
 			throw new Error("No response body from LiteLLM API");
 		}
 
+		options?.onHeaders?.(response.headers);
 		return response.body as ReadableStream<Uint8Array>;
 	}
 
+	/**
+	 * Base URL of the proxy this client talks to.
+	 */
+	get baseUrl(): string {
+		return this.config.url;
+	}
+
+	/**
+	 * Counts prompt tokens with the proxy's /utils/token_counter endpoint, which uses the
+	 * tokenizer of the deployment behind the model. Fails fast instead of retrying, since
+	 * callers fall back to a local estimate.
+	 */
+	async countTokens(
+		request: LiteLLMTokenCountRequest,
+		options?: { timeoutMs?: number; token?: vscode.CancellationToken }
+	): Promise<LiteLLMTokenCountResponse> {
+		const controller = new AbortController();
+		const disposable = options?.token?.onCancellationRequested(() => controller.abort());
+		const timer = options?.timeoutMs ? setTimeout(() => controller.abort(), options.timeoutMs) : undefined;
+
+		try {
+			const resp = await fetch(`${this.config.url}/utils/token_counter`, {
+				method: "POST",
+				headers: this.getHeaders(),
+				body: JSON.stringify(request),
+				signal: controller.signal,
+			});
+			if (!resp.ok) {
+				throw new Error(`Failed to count tokens: ${resp.status} ${resp.statusText}`);
+			}
+			const result = (await resp.json()) as LiteLLMTokenCountResponse;
+			if (typeof result?.total_tokens !== "number") {
+				throw new Error("Failed to count tokens: response has no total_tokens");
+			}
+			return result;
+		} finally {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			disposable?.dispose();
+		}
+	}
+
+	/**
+	 * Checks that the proxy is up via `/health/liveliness`, then that the API key is accepted by
+	 * listing models. Never throws; network errors and timeouts report the proxy as unreachable.
+	 */
+	async checkHealth(timeoutMs = 5000): Promise<Exclude<ProxyHealth, "unconfigured">> {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+		try {
+			const live = await fetch(`${this.config.url}/health/liveliness`, {
+				headers: { ...this.config.headers, "User-Agent": this.userAgent },
+				signal: controller.signal,
+			});
+			if (!live.ok) {
+				return "unreachable";
+			}
+
+			const models = await fetch(`${this.config.url}/models`, {
+				headers: this.getHeaders(),
+				signal: controller.signal,
+			});
+			return models.status === 401 || models.status === 403 ? "authFailed" : "reachable";
+		} catch {
+			return "unreachable";
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Request headers: the profile's extra headers, then the ones the client always sends, which win.
+	 */
 	private getHeaders(): Record<string, string> {
 		const headers: Record<string, string> = {
+			...this.config.headers,
 			"Content-Type": "application/json",
 			"User-Agent": this.userAgent,
 		};
@@ -83,7 +187,10 @@ export class LiteLLMClient {
 		return headers;
 	}
 
-	private getEndpoint(mode?: string): string {
+	/**
+	 * The endpoint a chat request for a model in the given mode is sent to.
+	 */
+	getEndpoint(mode?: string): string {
 		if (mode === "chat" || mode === "completions") {
 			return "/chat/completions";
 		}
@@ -116,6 +223,7 @@ export class LiteLLMClient {
 					return response;
 				}
 				attempt++;
+				logger.warn(`${url} returned ${response.status}; retrying in ${delayMs} ms (retry ${attempt}/${maxRetries})`);
 				await this.sleep(delayMs, options?.token);
 			} catch (err: unknown) {
 				if (err instanceof Error && err.name === "AbortError") {
@@ -125,6 +233,9 @@ export class LiteLLMClient {
 					throw err;
 				}
 				attempt++;
+				logger.warn(
+					`${url} failed (${err instanceof Error ? err.message : String(err)}); retrying in ${delayMs} ms (retry ${attempt}/${maxRetries})`
+				);
 				await this.sleep(delayMs, options?.token);
 			} finally {
 				disposable?.dispose();
@@ -159,6 +270,7 @@ export class LiteLLMClient {
 
 			const remaining = maxTotalDelayMs - cumulativeDelayMs;
 			if (remaining <= 0) {
+				logger.warn(`${url} is still rate limited after ${cumulativeDelayMs} ms of back-off; giving up`);
 				return response;
 			}
 
@@ -169,6 +281,9 @@ export class LiteLLMClient {
 
 			attempt++;
 			cumulativeDelayMs += nextDelayMs;
+			logger.warn(
+				`${url} rate limited (429); backing off ${nextDelayMs} ms (attempt ${attempt}${headerDelayMs !== undefined ? ", from Retry-After" : ""})`
+			);
 			await this.sleep(nextDelayMs, options?.token);
 		}
 	}
@@ -218,7 +333,8 @@ export class LiteLLMClient {
 	transformToResponsesFormat(requestBody: OpenAIChatCompletionRequest): LiteLLMResponsesRequest {
 		const messages = requestBody.messages;
 		const inputArray: (OpenAIChatMessageContentItem | LiteLLMResponseInputItem)[] = [];
-		let instructions: string | undefined;
+		// Every system message goes into the instructions, e.g. the prompt and a summary of trimmed turns
+		const systemTexts: string[] = [];
 
 		const allToolCallIds = new Set<string>();
 		const addedToolCalls = new Set<string>();
@@ -239,7 +355,13 @@ export class LiteLLMClient {
 
 		for (const msg of messages) {
 			if (msg.role === "system") {
-				instructions = typeof msg.content === "string" ? msg.content : undefined;
+				const text =
+					typeof msg.content === "string"
+						? msg.content
+						: (msg.content ?? []).map((item) => (item.type === "text" ? (item.text ?? "") : "")).join("");
+				if (text) {
+					systemTexts.push(text);
+				}
 				continue;
 			}
 
@@ -247,15 +369,20 @@ export class LiteLLMClient {
 				if (typeof msg.content === "string") {
 					inputArray.push({ type: "message", role: "user", content: msg.content });
 				} else if (Array.isArray(msg.content)) {
-					for (const item of msg.content) {
-						if (item.type === "text" && item.text) {
-							inputArray.push({ type: "message", role: "user", content: item.text });
-						}
+					// Text, images and files of one message stay together as a single multi-part message
+					const content = this.toResponsesContent(msg.content);
+					if (content.length > 0) {
+						inputArray.push({ type: "message", role: "user", content });
 					}
 				}
 			} else if (msg.role === "assistant") {
 				if (typeof msg.content === "string") {
 					inputArray.push({ type: "message", role: "assistant", content: msg.content });
+				} else if (Array.isArray(msg.content)) {
+					const text = msg.content.map((item) => (item.type === "text" ? (item.text ?? "") : "")).join("");
+					if (text) {
+						inputArray.push({ type: "message", role: "assistant", content: text });
+					}
 				}
 				if (msg.tool_calls) {
 					for (const tc of msg.tool_calls) {
@@ -264,6 +391,7 @@ export class LiteLLMClient {
 						inputArray.push({
 							type: "function_call",
 							id: normalizedId,
+							call_id: tc.id,
 							name: tc.function.name,
 							arguments: tc.function.arguments,
 						});
@@ -275,10 +403,11 @@ export class LiteLLMClient {
 					const normalizedId =
 						toolCallIdMap.get(toolCallId) || (toolCallId.startsWith("fc_") ? toolCallId : `fc_${toolCallId}`);
 					const toolContent = typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content);
+					// The call id is the one the server issued; only item ids take the fc_ prefix
 					if (addedToolCalls.has(normalizedId)) {
 						inputArray.push({
 							type: "function_call_output",
-							call_id: normalizedId,
+							call_id: toolCallId,
 							output: toolContent,
 						});
 					}
@@ -290,7 +419,7 @@ export class LiteLLMClient {
 			model: requestBody.model,
 			input: inputArray,
 			stream: requestBody.stream,
-			instructions,
+			instructions: systemTexts.length > 0 ? systemTexts.join("\n\n") : undefined,
 			max_tokens: requestBody.max_tokens,
 			temperature: requestBody.temperature,
 			top_p: requestBody.top_p,
@@ -320,6 +449,35 @@ export class LiteLLMClient {
 			responsesBody.tool_choice = requestBody.tool_choice;
 		}
 
+		// Ask for a reasoning summary so there is something to show while the model thinks
+		if (requestBody.reasoning_effort) {
+			responsesBody.reasoning = { effort: requestBody.reasoning_effort, summary: "auto" };
+		}
+
+		const format = requestBody.response_format;
+		if (format) {
+			responsesBody.text = {
+				format: format.type === "json_schema" ? { type: "json_schema", ...format.json_schema } : format,
+			};
+		}
+
 		return responsesBody;
 	}
+
+	/**
+	 * Map chat completions content items to /responses input content.
+	 */
+	private toResponsesContent(items: OpenAIChatMessageContentItem[]): LiteLLMResponseContentItem[] {
+		const content: LiteLLMResponseContentItem[] = [];
+		for (const item of items) {
+			if (item.type === "text" && item.text) {
+				content.push({ type: "input_text", text: item.text });
+			} else if (item.type === "image_url" && item.image_url?.url) {
+				content.push({ type: "input_image", image_url: item.image_url.url, detail: "auto" });
+			} else if (item.type === "file" && item.file?.file_data) {
+				content.push({ type: "input_file", filename: item.file.filename, file_data: item.file.file_data });
+			}
+		}
+		return content;
+	}
 }
@@ -0,0 +1,251 @@
+import { deflateSync, inflateSync } from "zlib";
+import { MAX_DECODED_PIXELS, RawImage } from "./imageUtils";
+
+const SIGNATURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Channels per pixel by PNG color type. */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+	for (const byte of bytes) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return crc;
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced PNG into RGBA pixels.
+ * @returns The image, or undefined for malformed files, unsupported variants (interlaced images) and
+ * images larger than {@link MAX_DECODED_PIXELS}.
+ */
+export function decodePng(data: Uint8Array): RawImage | undefined {
+	if (data.length < 33 || !SIGNATURE.every((byte, i) => data[i] === byte)) {
+		return undefined;
+	}
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	let width = 0;
+	let height = 0;
+	let bitDepth = 0;
+	let colorType = 0;
+	let interlaced = false;
+	let palette: Uint8Array | undefined;
+	let transparency: Uint8Array | undefined;
+	const idat: Uint8Array[] = [];
+
+	let offset = 8;
+	while (offset + 8 <= data.length) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+		const body = data.subarray(offset + 8, offset + 8 + length);
+		if (type === "IHDR") {
+			width = view.getUint32(offset + 8);
+			height = view.getUint32(offset + 12);
+			bitDepth = data[offset + 16];
+			colorType = data[offset + 17];
+			interlaced = data[offset + 20] !== 0;
+		} else if (type === "PLTE") {
+			palette = body;
+		} else if (type === "tRNS") {
+			transparency = body;
+		} else if (type === "IDAT") {
+			idat.push(body);
+		} else if (type === "IEND") {
+			break;
+		}
+		offset += 12 + length;
+	}
+
+	const channels = CHANNELS[colorType];
+	if (!width || !height || !channels || interlaced || (colorType === 3 && !palette)) {
+		return undefined;
+	}
+	if (width * height > MAX_DECODED_PIXELS) {
+		return undefined;
+	}
+	const colors = palette ?? new Uint8Array(0);
+
+	const bitsPerPixel = channels * bitDepth;
+	const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+	const stride = Math.ceil((width * bitsPerPixel) / 8);
+	let inflated: Uint8Array;
+	try {
+		// Image data never inflates to more than its rows; anything beyond that is not decoded
+		inflated = inflateSync(Buffer.concat(idat), { maxOutputLength: (stride + 1) * height });
+	} catch {
+		return undefined;
+	}
+	if (inflated.length < (stride + 1) * height) {
+		return undefined;
+	}
+
+	// Undo the per-row filters in place
+	const rows = new Uint8Array(stride * height);
+	for (let y = 0; y < height; y++) {
+		const filter = inflated[y * (stride + 1)];
+		const src = inflated.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+		const row = rows.subarray(y * stride, (y + 1) * stride);
+		const prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : undefined;
+		for (let x = 0; x < stride; x++) {
+			const left = x >= bytesPerPixel ? row[x - bytesPerPixel] : 0;
+			const up = prev ? prev[x] : 0;
+			const upLeft = prev && x >= bytesPerPixel ? prev[x - bytesPerPixel] : 0;
+			let predictor = 0;
+			if (filter === 1) {
+				predictor = left;
+			} else if (filter === 2) {
+				predictor = up;
+			} else if (filter === 3) {
+				predictor = (left + up) >> 1;
+			} else if (filter === 4) {
+				predictor = paeth(left, up, upLeft);
+			}
+			row[x] = (src[x] + predictor) & 0xff;
+		}
+	}
+
+	// Expand every sample to 8 bits and every pixel to RGBA
+	const maxSample = (1 << bitDepth) - 1;
+	const sample = (row: number, index: number): number => {
+		const base = row * stride;
+		if (bitDepth === 8) {
+			return rows[base + index];
+		}
+		if (bitDepth === 16) {
+			return rows[base + index * 2];
+		}
+		const bit = index * bitDepth;
+		return (rows[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+	};
+	const scale = colorType === 3 || bitDepth >= 8 ? 1 : 255 / maxSample;
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const out = (y * width + x) * 4;
+			const first = x * channels;
+			if (colorType === 3) {
+				const index = sample(y, first);
+				pixels[out] = colors[index * 3] ?? 0;
+				pixels[out + 1] = colors[index * 3 + 1] ?? 0;
+				pixels[out + 2] = colors[index * 3 + 2] ?? 0;
+				pixels[out + 3] = transparency?.[index] ?? 255;
+			} else if (colorType === 0 || colorType === 4) {
+				const gray = Math.round(sample(y, first) * scale);
+				pixels[out] = pixels[out + 1] = pixels[out + 2] = gray;
+				pixels[out + 3] = colorType === 4 ? Math.round(sample(y, first + 1) * scale) : 255;
+			} else {
+				pixels[out] = Math.round(sample(y, first) * scale);
+				pixels[out + 1] = Math.round(sample(y, first + 1) * scale);
+				pixels[out + 2] = Math.round(sample(y, first + 2) * scale);
+				pixels[out + 3] = colorType === 6 ? Math.round(sample(y, first + 3) * scale) : 255;
+			}
+		}
+	}
+	return { width, height, data: pixels };
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit PNG, dropping the alpha channel when the image is fully opaque.
+ */
+export function encodePng(image: RawImage): Uint8Array {
+	const { width, height, data } = image;
+	let opaque = true;
+	for (let i = 3; i < data.length; i += 4) {
+		if (data[i] !== 255) {
+			opaque = false;
+			break;
+		}
+	}
+	const channels = opaque ? 3 : 4;
+	const stride = width * channels;
+
+	const raw = new Uint8Array(stride);
+	const prev = new Uint8Array(stride);
+	const candidate = new Uint8Array(stride);
+	const best = new Uint8Array(stride);
+	const filtered = new Uint8Array((stride + 1) * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			for (let c = 0; c < channels; c++) {
+				raw[x * channels + c] = data[(y * width + x) * 4 + c];
+			}
+		}
+		// Pick the filter with the smallest sum of absolute differences, the usual heuristic
+		let bestFilter = 0;
+		let bestScore = Infinity;
+		for (let filter = 0; filter <= 4; filter++) {
+			let score = 0;
+			for (let x = 0; x < stride; x++) {
+				const left = x >= channels ? raw[x - channels] : 0;
+				const up = y > 0 ? prev[x] : 0;
+				const upLeft = y > 0 && x >= channels ? prev[x - channels] : 0;
+				const predictor =
+					filter === 1
+						? left
+						: filter === 2
+							? up
+							: filter === 3
+								? (left + up) >> 1
+								: filter === 4
+									? paeth(left, up, upLeft)
+									: 0;
+				const value = (raw[x] - predictor) & 0xff;
+				candidate[x] = value;
+				score += value < 128 ? value : 256 - value;
+			}
+			if (score < bestScore) {
+				bestScore = score;
+				bestFilter = filter;
+				best.set(candidate);
+			}
+		}
+		filtered[y * (stride + 1)] = bestFilter;
+		filtered.set(best, y * (stride + 1) + 1);
+		prev.set(raw);
+	}
+
+	const header = new Uint8Array(13);
+	const headerView = new DataView(header.buffer);
+	headerView.setUint32(0, width);
+	headerView.setUint32(4, height);
+	header[8] = 8;
+	header[9] = opaque ? 2 : 6;
+
+	return Buffer.concat([
+		SIGNATURE,
+		chunk("IHDR", header),
+		chunk("IDAT", deflateSync(filtered)),
+		chunk("IEND", new Uint8Array(0)),
+	]);
+}
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+	const out = new Uint8Array(12 + body.length);
+	const view = new DataView(out.buffer);
+	view.setUint32(0, body.length);
+	for (let i = 0; i < 4; i++) {
+		out[4 + i] = type.charCodeAt(i);
+	}
+	out.set(body, 8);
+	view.setUint32(8 + body.length, (crc32(out.subarray(4, 8 + body.length)) ^ 0xffffffff) >>> 0);
+	return out;
+}
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import type { OpenAIChatMessage } from "../types";
+import { LiteLLMClient } from "./litellmClient";
+import { logger } from "../logger";
+
+/** Proxy counts are kept for this many distinct contents. */
+const MAX_CACHE_ENTRIES = 2000;
+/** After a failure the proxy is not asked again for this long. */
+const UNAVAILABLE_COOLDOWN_MS = 5 * 60_000;
+/** Messages counted in parallel when trimming. */
+const MAX_CONCURRENT_REQUESTS = 8;
+
+/**
+ * Counts tokens with the proxy's /utils/token_counter endpoint.
+ *
+ * Results are cached by a hash of the model and content, so a conversation only pays for messages
+ * it has not counted before. When the endpoint is missing, slow or failing, the local estimate is
+ * returned and the proxy is skipped for a cool-down period.
+ */
+export class ProxyTokenCounter {
+	private readonly _cache = new Map<string, number>();
+	private readonly _unavailableUntil = new Map<string, number>();
+
+	constructor(private readonly timeoutMs = 2000) {}
+
+	/**
+	 * Count the tokens of a plain text prompt.
+	 */
+	async countText(
+		client: LiteLLMClient,
+		model: string,
+		text: string,
+		fallback: () => number,
+		token?: vscode.CancellationToken
+	): Promise<number> {
+		return this.count(client, { model, prompt: text }, fallback, token);
+	}
+
+	/**
+	 * Count the tokens of messages that have already been converted to the OpenAI format.
+	 */
+	async countMessages(
+		client: LiteLLMClient,
+		model: string,
+		messages: OpenAIChatMessage[],
+		fallback: () => number,
+		token?: vscode.CancellationToken
+	): Promise<number> {
+		if (messages.length === 0) {
+			return fallback();
+		}
+		return this.count(client, { model, messages }, fallback, token);
+	}
+
+	/**
+	 * Count many items with bounded parallelism.
+	 */
+	async countAll<T>(items: readonly T[], countItem: (item: T) => Promise<number>): Promise<number[]> {
+		const results: number[] = new Array(items.length);
+		let next = 0;
+		const worker = async () => {
+			while (next < items.length) {
+				const index = next++;
+				results[index] = await countItem(items[index]);
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, items.length) }, worker));
+		return results;
+	}
+
+	private async count(
+		client: LiteLLMClient,
+		request: { model: string; prompt?: string; messages?: OpenAIChatMessage[] },
+		fallback: () => number,
+		token?: vscode.CancellationToken
+	): Promise<number> {
+		const key = createHash("sha256").update(JSON.stringify(request)).digest("hex");
+		const cached = this._cache.get(key);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		if ((this._unavailableUntil.get(client.baseUrl) ?? 0) > Date.now()) {
+			return fallback();
+		}
+
+		try {
+			const { total_tokens } = await client.countTokens(request, { timeoutMs: this.timeoutMs, token });
+			if (this._cache.size >= MAX_CACHE_ENTRIES) {
+				this._cache.delete(this._cache.keys().next().value as string);
+			}
+			this._cache.set(key, total_tokens);
+			return total_tokens;
+		} catch (err) {
+			if (!token?.isCancellationRequested) {
+				logger.warn(
+					`Proxy token counting unavailable at ${client.baseUrl}, using local estimate: ${err instanceof Error ? err.message : String(err)}`
+				);
+				this._unavailableUntil.set(client.baseUrl, Date.now() + UNAVAILABLE_COOLDOWN_MS);
+			}
+			return fallback();
+		}
+	}
+}
@@ -1,45 +1,107 @@
 import * as vscode from "vscode";
 import { LiteLLMModelInfo } from "../types";
+import { isTextMimeType, isToolResultPart } from "../utils";
+import { getImageDimensions } from "./imageUtils";
+import { getFallbackTokenizer, getTokenizer, Tokenizer } from "./tokenizer";
 
 export const DEFAULT_MAX_OUTPUT_TOKENS = 16000;
 export const DEFAULT_CONTEXT_LENGTH = 128000;
 
+/** Providers bill a PDF page as its extracted text plus an image of the page, roughly this many tokens. */
+const PDF_TOKENS_PER_PAGE = 1500;
+/** Page size assumed when the page objects of a PDF are compressed and cannot be counted. */
+const PDF_BYTES_PER_PAGE = 50_000;
+
 /**
- * Roughly estimate tokens for VS Code chat messages (text only)
+ * Estimate tokens for VS Code chat messages
  */
-export function estimateMessagesTokens(msgs: readonly vscode.LanguageModelChatRequestMessage[]): number {
+export function estimateMessagesTokens(
+	msgs: readonly vscode.LanguageModelChatRequestMessage[],
+	tokenizer: Tokenizer = getFallbackTokenizer()
+): number {
 	let total = 0;
 	for (const m of msgs) {
-		total += estimateSingleMessageTokens(m);
+		total += estimateSingleMessageTokens(m, tokenizer);
 	}
 	return total;
 }
 
 /**
- * Roughly estimate tokens for a single VS Code chat message (text only)
+ * Estimate tokens for a single VS Code chat message, including images, tool calls and tool results
  */
-export function estimateSingleMessageTokens(msg: vscode.LanguageModelChatRequestMessage): number {
-	let total = 0;
+export function estimateSingleMessageTokens(
+	msg: vscode.LanguageModelChatRequestMessage,
+	tokenizer: Tokenizer = getFallbackTokenizer()
+): number {
+	let total = tokenizer.messageOverhead;
 	for (const part of msg.content) {
-		if (part instanceof vscode.LanguageModelTextPart) {
-			total += Math.ceil(part.value.length / 4);
-		}
+		total += estimatePartTokens(part, tokenizer);
 	}
 	return total;
 }
 
 /**
- * Rough token estimate for tool definitions by JSON size
+ * Estimate tokens for one content part of a chat message
+ */
+function estimatePartTokens(part: unknown, tokenizer: Tokenizer): number {
+	if (part instanceof vscode.LanguageModelTextPart) {
+		return tokenizer.countText(part.value);
+	}
+	if (part instanceof vscode.LanguageModelDataPart) {
+		if (part.mimeType.startsWith("image/")) {
+			return tokenizer.countImage(getImageDimensions(part.data));
+		}
+		if (part.mimeType === "application/pdf") {
+			return estimatePdfPages(part.data) * PDF_TOKENS_PER_PAGE;
+		}
+		// Other binary parts are not counted as text; most are dropped before the request is sent
+		return isTextMimeType(part.mimeType) ? tokenizer.countText(new TextDecoder().decode(part.data)) : 0;
+	}
+	if (part instanceof vscode.LanguageModelToolCallPart) {
+		let args = "{}";
+		try {
+			args = JSON.stringify(part.input ?? {});
+		} catch {
+			/* keep the empty object estimate */
+		}
+		return tokenizer.countText(part.name) + tokenizer.countText(args) + tokenizer.messageOverhead;
+	}
+	if (isToolResultPart(part)) {
+		let total = tokenizer.messageOverhead;
+		for (const c of part.content ?? []) {
+			if (typeof c === "string") {
+				total += tokenizer.countText(c);
+			} else {
+				total += estimatePartTokens(c, tokenizer);
+			}
+		}
+		return total;
+	}
+	return 0;
+}
+
+/**
+ * Page count of a PDF from its `/Type /Page` objects, or from its size when they are in compressed streams.
+ */
+function estimatePdfPages(data: Uint8Array): number {
+	const text = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("latin1");
+	const pages = text.match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+	return Math.max(1, pages || Math.ceil(data.byteLength / PDF_BYTES_PER_PAGE));
+}
+
+/**
+ * Token estimate for tool definitions by their JSON encoding
  */
 export function estimateToolTokens(
-	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined
+	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined,
+	tokenizer: Tokenizer = getFallbackTokenizer()
 ): number {
 	if (!tools || tools.length === 0) {
 		return 0;
 	}
 	try {
 		const json = JSON.stringify(tools);
-		return Math.ceil(json.length / 4);
+		return tokenizer.countText(json);
 	} catch {
 		return 0;
 	}
@@ -55,60 +117,174 @@ export function isAnthropicModel(modelId: string, modelInfo?: LiteLLMModelInfo):
 	return /claude/i.test(modelId) || /anthropic/i.test(modelId);
 }
 
+/** Tool results above this share of the budget are shortened before whole turns are dropped. */
+const TOOL_RESULT_BUDGET_SHARE = 0.1;
+const MIN_TOOL_RESULT_TOKENS = 256;
+
 /**
- * Trim messages to fit within the model's input token budget, preserving the system prompt
+ * Trim messages to fit within the model's input token budget, preserving every system message
  * and as much recent context as possible. Anthropic models get a safety margin to avoid
  * overfilling the context window.
+ *
+ * An assistant message with tool calls and the messages carrying its results are kept or dropped
+ * together, so the request never contains a call without its result or the other way round. Before
+ * whole turns are dropped, oversized tool results are shortened, oldest first.
+ * @param messageTokens Exact per-message counts (e.g. from the proxy) that replace the local estimate.
  */
 export function trimMessagesToFitBudget(
 	messages: readonly vscode.LanguageModelChatRequestMessage[],
 	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined,
 	model: vscode.LanguageModelChatInformation,
-	modelInfo?: LiteLLMModelInfo
+	modelInfo?: LiteLLMModelInfo,
+	messageTokens?: ReadonlyMap<vscode.LanguageModelChatRequestMessage, number>
 ): readonly vscode.LanguageModelChatRequestMessage[] {
-	const toolTokenCount = estimateToolTokens(tools);
+	return splitMessagesToFitBudget(messages, tools, model, modelInfo, messageTokens).messages;
+}
+
+/**
+ * Like {@link trimMessagesToFitBudget}, but also returns the dropped conversation prefix (in its
+ * original, untruncated form) and can keep `reservedTokens` of the budget free, e.g. for a summary
+ * of the dropped messages.
+ */
+export function splitMessagesToFitBudget(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined,
+	model: vscode.LanguageModelChatInformation,
+	modelInfo?: LiteLLMModelInfo,
+	messageTokens?: ReadonlyMap<vscode.LanguageModelChatRequestMessage, number>,
+	reservedTokens = 0
+): {
+	messages: readonly vscode.LanguageModelChatRequestMessage[];
+	dropped: readonly vscode.LanguageModelChatRequestMessage[];
+} {
+	const tokenizer = getTokenizer(model.id, modelInfo);
+	const countMessage = (msg: vscode.LanguageModelChatRequestMessage) =>
+		messageTokens?.get(msg) ?? estimateSingleMessageTokens(msg, tokenizer);
+	const toolTokenCount = estimateToolTokens(tools, tokenizer);
 	const tokenLimit = Math.max(1, model.maxInputTokens);
 	const safetyLimit = isAnthropicModel(model.id, modelInfo) ? Math.max(1, Math.floor(tokenLimit * 0.98)) : tokenLimit;
-	const budget = safetyLimit - toolTokenCount;
+	const budget = safetyLimit - toolTokenCount - reservedTokens;
 	if (budget <= 0) {
 		throw new Error("Message exceeds token limit.");
 	}
 
-	let systemMessage: vscode.LanguageModelChatRequestMessage | undefined;
-	const remaining: vscode.LanguageModelChatRequestMessage[] = [];
 	const userRole = vscode.LanguageModelChatMessageRole.User as unknown as number;
 	const assistantRole = vscode.LanguageModelChatMessageRole.Assistant as unknown as number;
-	for (const msg of messages) {
+	const isSystem = (msg: vscode.LanguageModelChatRequestMessage) => {
 		const roleNum = msg.role as unknown as number;
-		const isSystem = roleNum !== userRole && roleNum !== assistantRole;
-		if (!systemMessage && isSystem) {
-			systemMessage = msg;
-		} else {
-			remaining.push(msg);
-		}
+		return roleNum !== userRole && roleNum !== assistantRole;
+	};
+
+	let systemTokens = 0;
+	for (const msg of messages.filter(isSystem)) {
+		systemTokens += countMessage(msg);
+	}
+	if (systemTokens > budget) {
+		throw new Error("Message exceeds token limit.");
 	}
 
-	const selected: vscode.LanguageModelChatRequestMessage[] = [];
-	let used = 0;
-	if (systemMessage) {
-		const sysTokens = estimateSingleMessageTokens(systemMessage);
-		if (sysTokens > budget) {
-			throw new Error("Message exceeds token limit.");
+	const units = groupToolTurns(messages.filter((msg) => !isSystem(msg)));
+	const replacements = new Map<vscode.LanguageModelChatRequestMessage, vscode.LanguageModelChatRequestMessage>();
+	const unitTokens = units.map((unit) => unit.reduce((sum, msg) => sum + countMessage(msg), 0));
+	let total = systemTokens + unitTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+	if (total > budget) {
+		const toolResultLimit = Math.max(MIN_TOOL_RESULT_TOKENS, Math.floor(budget * TOOL_RESULT_BUDGET_SHARE));
+		for (let u = 0; u < units.length && total > budget; u++) {
+			for (const msg of units[u]) {
+				const shortened = truncateToolResults(msg, toolResultLimit, tokenizer);
+				if (shortened !== msg) {
+					const saved = countMessage(msg) - estimateSingleMessageTokens(shortened, tokenizer);
+					replacements.set(msg, shortened);
+					unitTokens[u] -= saved;
+					total -= saved;
+				}
+			}
 		}
-		selected.push(systemMessage);
-		used += sysTokens;
 	}
 
-	for (let i = remaining.length - 1; i >= 0; i--) {
-		const msg = remaining[i];
-		const msgTokens = estimateSingleMessageTokens(msg);
-		if (used + msgTokens <= budget || selected.length === (systemMessage ? 1 : 0)) {
-			selected.splice(systemMessage ? 1 : 0, 0, msg);
-			used += msgTokens;
-		} else {
+	// Keep the most recent turns that fit, and always the newest one
+	const kept = new Set<vscode.LanguageModelChatRequestMessage>();
+	let used = systemTokens;
+	for (let u = units.length - 1; u >= 0; u--) {
+		if (used + unitTokens[u] > budget && u !== units.length - 1) {
 			break;
 		}
+		units[u].forEach((msg) => kept.add(msg));
+		used += unitTokens[u];
 	}
 
-	return selected;
+	return {
+		messages: messages.filter((msg) => isSystem(msg) || kept.has(msg)).map((msg) => replacements.get(msg) ?? msg),
+		dropped: messages.filter((msg) => !isSystem(msg) && !kept.has(msg)),
+	};
+}
+
+/**
+ * Group conversation messages into units that must stay together: an assistant message with tool
+ * calls plus the following messages that carry its results. Other messages form units of their own.
+ */
+function groupToolTurns(
+	messages: readonly vscode.LanguageModelChatRequestMessage[]
+): vscode.LanguageModelChatRequestMessage[][] {
+	const units: vscode.LanguageModelChatRequestMessage[][] = [];
+	for (let i = 0; i < messages.length; i++) {
+		const unit = [messages[i]];
+		const pending = new Set(
+			messages[i].content
+				.filter((part) => part instanceof vscode.LanguageModelToolCallPart)
+				.map((part) => (part as vscode.LanguageModelToolCallPart).callId)
+		);
+		while (pending.size > 0 && i + 1 < messages.length) {
+			const results = messages[i + 1].content.filter(isToolResultPart);
+			if (results.length === 0) {
+				break;
+			}
+			unit.push(messages[++i]);
+			results.forEach((part) => pending.delete(part.callId));
+		}
+		units.push(unit);
+	}
+	return units;
+}
+
+/**
+ * Shorten tool result texts over `limit` tokens to their start and end around an elision marker.
+ * @returns A copy of the message, or the message itself when nothing was shortened.
+ */
+function truncateToolResults(
+	msg: vscode.LanguageModelChatRequestMessage,
+	limit: number,
+	tokenizer: Tokenizer
+): vscode.LanguageModelChatRequestMessage {
+	let changed = false;
+	const content = msg.content.map((part) => {
+		if (!isToolResultPart(part)) {
+			return part;
+		}
+		let partChanged = false;
+		const resultContent = (part.content ?? []).map((item) => {
+			if (!(item instanceof vscode.LanguageModelTextPart)) {
+				return item;
+			}
+			const tokens = tokenizer.countText(item.value);
+			if (tokens <= limit) {
+				return item;
+			}
+			partChanged = true;
+			const keep = Math.floor((item.value.length * limit) / tokens);
+			const head = Math.ceil(keep * 0.6);
+			const tail = keep - head;
+			const marker = `\n\n[... ${tokens - limit} tokens of tool output elided ...]\n\n`;
+			return new vscode.LanguageModelTextPart(
+				item.value.slice(0, head) + marker + (tail > 0 ? item.value.slice(-tail) : "")
+			);
+		});
+		if (!partChanged) {
+			return part;
+		}
+		changed = true;
+		return new vscode.LanguageModelToolResultPart(part.callId, resultContent);
+	});
+	return changed ? { role: msg.role, content, name: msg.name } : msg;
 }
@@ -0,0 +1,222 @@
+import { LiteLLMModelInfo } from "../types";
+import { ImageDimensions } from "./imageUtils";
+
+/**
+ * Counts tokens for a family of models.
+ */
+export interface Tokenizer {
+	/** Identifier of the tokenizer, e.g. "o200k_base". */
+	readonly name: string;
+	/** Tokens the chat format adds around every message (role markers, separators). */
+	readonly messageOverhead: number;
+	/** Count the tokens in a piece of text. */
+	countText(text: string): number;
+	/** Estimate the tokens an image costs. Dimensions are undefined when the header could not be read. */
+	countImage(dimensions: ImageDimensions | undefined): number;
+}
+
+/**
+ * Picks a tokenizer for a model, or returns undefined to defer to the next resolver.
+ */
+export type TokenizerResolver = (modelId: string, modelInfo?: LiteLLMModelInfo) => Tokenizer | undefined;
+
+type BpeEncoding = typeof import("gpt-tokenizer/encoding/cl100k_base");
+
+/** Texts shorter than this are cheap to encode and are not memoized. */
+const MEMO_MIN_LENGTH = 256;
+const MEMO_MAX_ENTRIES = 512;
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿ｦ-ﾟ]/g;
+
+/**
+ * OpenAI image cost for high-detail inputs: the image is fit into 2048x2048, its short side is
+ * scaled to 768px, and every 512px tile costs 170 tokens on top of a base of 85.
+ */
+function openAIImageTokens(dimensions: ImageDimensions | undefined): number {
+	if (!dimensions || dimensions.width <= 0 || dimensions.height <= 0) {
+		return 765;
+	}
+	let { width, height } = dimensions;
+	const fit = Math.min(1, 2048 / Math.max(width, height));
+	width *= fit;
+	height *= fit;
+	const shortSide = Math.min(width, height);
+	if (shortSide > 768) {
+		width *= 768 / shortSide;
+		height *= 768 / shortSide;
+	}
+	const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+	return 85 + 170 * tiles;
+}
+
+/**
+ * Anthropic image cost: roughly width * height / 750 after the long edge is scaled down to 1568px.
+ */
+function anthropicImageTokens(dimensions: ImageDimensions | undefined): number {
+	if (!dimensions || dimensions.width <= 0 || dimensions.height <= 0) {
+		return 1600;
+	}
+	const scale = Math.min(1, 1568 / Math.max(dimensions.width, dimensions.height));
+	return Math.ceil((dimensions.width * scale * (dimensions.height * scale)) / 750);
+}
+
+/**
+ * Byte-pair encoding tokenizer backed by an OpenAI tiktoken vocabulary.
+ */
+export class BpeTokenizer implements Tokenizer {
+	readonly messageOverhead = 3;
+	private _encoding: BpeEncoding | undefined;
+	private readonly _memo = new Map<string, number>();
+
+	/**
+	 * @param name Encoding name, e.g. "o200k_base".
+	 * @param load Loads the encoding. Rank tables take a few hundred milliseconds to build,
+	 * so they are only loaded when a model actually needs them.
+	 */
+	constructor(
+		readonly name: string,
+		private readonly load: () => BpeEncoding
+	) {}
+
+	countText(text: string): number {
+		if (!text) {
+			return 0;
+		}
+		if (text.length < MEMO_MIN_LENGTH) {
+			return this.encode(text);
+		}
+		const cached = this._memo.get(text);
+		if (cached !== undefined) {
+			return cached;
+		}
+		const count = this.encode(text);
+		if (this._memo.size >= MEMO_MAX_ENTRIES) {
+			this._memo.delete(this._memo.keys().next().value as string);
+		}
+		this._memo.set(text, count);
+		return count;
+	}
+
+	countImage(dimensions: ImageDimensions | undefined): number {
+		return openAIImageTokens(dimensions);
+	}
+
+	private encode(text: string): number {
+		this._encoding ??= this.load();
+		// Special-token text in user content is counted as ordinary text rather than rejected
+		return this._encoding.countTokens(text, { disallowedSpecial: new Set() });
+	}
+}
+
+/**
+ * Anthropic does not publish the Claude tokenizer. Claude's vocabulary is smaller than cl100k and
+ * produces noticeably more tokens for the same text, so cl100k counts are scaled up to stay on the
+ * safe side of the context window.
+ */
+export class ClaudeTokenizer implements Tokenizer {
+	readonly name = "claude";
+	readonly messageOverhead = 3;
+	static readonly SCALE = 1.2;
+
+	constructor(private readonly base: Tokenizer) {}
+
+	countText(text: string): number {
+		return Math.ceil(this.base.countText(text) * ClaudeTokenizer.SCALE);
+	}
+
+	countImage(dimensions: ImageDimensions | undefined): number {
+		return anthropicImageTokens(dimensions);
+	}
+}
+
+/**
+ * Character-ratio estimate for models with an unknown tokenizer: about four characters per token
+ * for alphabetic text and one token per CJK character.
+ */
+export class FallbackTokenizer implements Tokenizer {
+	readonly name = "fallback";
+	readonly messageOverhead = 0;
+
+	countText(text: string): number {
+		if (!text) {
+			return 0;
+		}
+		const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+		return cjk + Math.ceil((text.length - cjk) / 4);
+	}
+
+	countImage(dimensions: ImageDimensions | undefined): number {
+		return openAIImageTokens(dimensions);
+	}
+}
+
+/* eslint-disable @typescript-eslint/no-require-imports -- encodings are loaded on first use */
+const encoders = {
+	cl100k: new BpeTokenizer("cl100k_base", () => require("gpt-tokenizer/encoding/cl100k_base") as BpeEncoding),
+	o200k: new BpeTokenizer("o200k_base", () => require("gpt-tokenizer/encoding/o200k_base") as BpeEncoding),
+};
+/* eslint-enable @typescript-eslint/no-require-imports */
+const claude = new ClaudeTokenizer(encoders.cl100k);
+const fallback = new FallbackTokenizer();
+
+const customResolvers: TokenizerResolver[] = [];
+
+/**
+ * Built-in selection based on the LiteLLM provider and the model id.
+ */
+const builtinResolver: TokenizerResolver = (modelId, modelInfo) => {
+	const id = modelId.toLowerCase();
+	const provider = modelInfo?.litellm_provider?.toLowerCase() ?? "";
+
+	if (provider === "anthropic" || /claude|anthropic/.test(id)) {
+		return claude;
+	}
+	if (/gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|(^|[/-])o[134](-|$)|codex/.test(id)) {
+		return encoders.o200k;
+	}
+	if (/gpt-4|gpt-3\.5|gpt-35|text-embedding/.test(id)) {
+		return encoders.cl100k;
+	}
+	// Llama 3, Mistral, Qwen and DeepSeek use large BPE vocabularies that track cl100k closely
+	if (/llama-?3|mistral|mixtral|codestral|qwen|deepseek/.test(id)) {
+		return encoders.cl100k;
+	}
+	if (provider === "openai" || provider === "azure" || provider === "text-completion-openai") {
+		return encoders.o200k;
+	}
+	return undefined;
+};
+
+/**
+ * Register a resolver that is consulted before the built-in tokenizer selection.
+ * @returns A function that unregisters the resolver.
+ */
+export function registerTokenizerResolver(resolver: TokenizerResolver): () => void {
+	customResolvers.unshift(resolver);
+	return () => {
+		const index = customResolvers.indexOf(resolver);
+		if (index !== -1) {
+			customResolvers.splice(index, 1);
+		}
+	};
+}
+
+/**
+ * Select the tokenizer that best matches a model.
+ */
+export function getTokenizer(modelId: string, modelInfo?: LiteLLMModelInfo): Tokenizer {
+	for (const resolver of [...customResolvers, builtinResolver]) {
+		const tokenizer = resolver(modelId, modelInfo);
+		if (tokenizer) {
+			return tokenizer;
+		}
+	}
+	return fallback;
+}
+
+/**
+ * Tokenizer used when no model is known.
+ */
+export function getFallbackTokenizer(): Tokenizer {
+	return fallback;
+}
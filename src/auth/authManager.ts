@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import type { LiteLLMConfig } from "../types";
+import { ConfigManager } from "../config/configManager";
+import { logger } from "../logger";
+import { AccessToken, runTokenCommand } from "./commandToken";
+import { OAUTH_PROVIDER_ID, OAuthDeviceFlowProvider, oauthScopes } from "./oauthDeviceFlow";
+
+/** Tokens this close to expiring are fetched again before they are sent. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * Supplies the credential sent to a profile's proxy, according to the profile's `litellm-connector.auth`
+ * settings: the stored API key, a token printed by a command (cached until it expires), or the access
+ * token of an OAuth session.
+ */
+export class AuthManager {
+	/** Command tokens keyed by profile id, including the ones still being fetched. */
+	private readonly _commandTokens = new Map<string, { command: string; token: Promise<AccessToken> }>();
+
+	constructor(
+		private readonly configManager: ConfigManager,
+		private readonly oauth?: OAuthDeviceFlowProvider
+	) {}
+
+	/**
+	 * The profile configuration with its credential in `key`. `interactive` allows an OAuth sign-in to
+	 * start; otherwise VS Code only offers one in the Accounts menu.
+	 * @throws When the token command fails or an interactive sign-in is cancelled.
+	 */
+	async authorize(profileId: string, config: LiteLLMConfig, interactive = false): Promise<LiteLLMConfig> {
+		const profile = (await this.configManager.getProfiles()).find((p) => p.id === profileId);
+		const settings = profile ? this.configManager.getAuthSettings(profile) : { type: "apiKey" as const };
+		switch (settings.type) {
+			case "command":
+				return { ...config, key: await this.commandToken(profileId, settings.command) };
+			case "oauth": {
+				const session = await vscode.authentication.getSession(
+					OAUTH_PROVIDER_ID,
+					oauthScopes(profileId, settings),
+					interactive ? { createIfNone: true } : {}
+				);
+				return { ...config, key: session?.accessToken };
+			}
+			default:
+				return config;
+		}
+	}
+
+	/**
+	 * Drop the credential of a profile whose requests were rejected with 401, so the next
+	 * {@link authorize} fetches a new one.
+	 * @returns Whether a new credential can differ from the rejected one; a stored API key cannot.
+	 */
+	async refresh(profileId: string): Promise<boolean> {
+		const profile = (await this.configManager.getProfiles()).find((p) => p.id === profileId);
+		const settings = profile ? this.configManager.getAuthSettings(profile) : undefined;
+		if (settings?.type === "command") {
+			this._commandTokens.delete(profileId);
+			return true;
+		}
+		if (settings?.type === "oauth") {
+			return (await this.oauth?.refresh(profileId)) ?? false;
+		}
+		return false;
+	}
+
+	private async commandToken(profileId: string, command: string): Promise<string> {
+		const cached = this._commandTokens.get(profileId);
+		if (cached?.command === command) {
+			const { token, expiresAt } = await cached.token;
+			if (expiresAt === undefined || expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+				return token;
+			}
+		}
+
+		const pending = runTokenCommand(command);
+		this._commandTokens.set(profileId, { command, token: pending });
+		try {
+			const { token, expiresAt } = await pending;
+			logger.debug(
+				`Token command for profile "${profileId}" succeeded` +
+					(expiresAt ? `; the token expires at ${new Date(expiresAt).toISOString()}` : "")
+			);
+			return token;
+		} catch (err) {
+			if (this._commandTokens.get(profileId)?.token === pending) {
+				this._commandTokens.delete(profileId);
+			}
+			throw err;
+		}
+	}
+}
@@ -0,0 +1,94 @@
+import { exec } from "child_process";
+import * as os from "os";
+
+/** A bearer token and, when known, when it stops being accepted (ms since the epoch). */
+export interface AccessToken {
+	token: string;
+	expiresAt?: number;
+}
+
+/** Token commands that take longer than this are stopped. */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Run a command and read the token it prints. The command runs in a shell, from the home directory: a
+ * workspace folder could hold a program that shadows the one the command names.
+ * @throws When the command fails, times out or prints no token.
+ */
+export function runTokenCommand(command: string): Promise<AccessToken> {
+	return new Promise((resolve, reject) => {
+		exec(command, { cwd: os.homedir(), timeout: COMMAND_TIMEOUT_MS, windowsHide: true }, (err, stdout, stderr) => {
+			if (err) {
+				const detail = String(stderr).trim() || err.message;
+				reject(new Error(`Token command failed: ${detail}`));
+				return;
+			}
+			try {
+				resolve(parseTokenOutput(String(stdout)));
+			} catch (parseErr) {
+				reject(parseErr);
+			}
+		});
+	});
+}
+
+/**
+ * Read a token from command output: either the token itself, or a JSON object with `access_token`,
+ * `accessToken` or `token` and optionally `expires_in` (seconds), `expires_at` or `expiresOn`. Without
+ * an expiry in the output, the `exp` claim of a JWT is used.
+ * @throws When the output holds no token.
+ */
+export function parseTokenOutput(output: string): AccessToken {
+	const text = output.trim();
+	let token = text;
+	let expiresAt: number | undefined;
+	if (text.startsWith("{")) {
+		let json: Record<string, unknown>;
+		try {
+			json = JSON.parse(text) as Record<string, unknown>;
+		} catch {
+			throw new Error("Token command printed invalid JSON");
+		}
+		const value = json.access_token ?? json.accessToken ?? json.token;
+		token = typeof value === "string" ? value.trim() : "";
+		expiresAt = parseExpiry(json);
+	}
+	if (!token) {
+		throw new Error("Token command printed no token");
+	}
+	const exp = jwtClaims(token)?.exp;
+	return { token, expiresAt: expiresAt ?? (typeof exp === "number" ? exp * 1000 : undefined) };
+}
+
+/**
+ * Claims in the payload of a JWT, without checking its signature.
+ * @returns The claims, or undefined when the token is not a JWT.
+ */
+export function jwtClaims(token: string): Record<string, unknown> | undefined {
+	const parts = token.split(".");
+	if (parts.length !== 3) {
+		return undefined;
+	}
+	try {
+		const claims: unknown = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+		return claims && typeof claims === "object" ? (claims as Record<string, unknown>) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function parseExpiry(json: Record<string, unknown>): number | undefined {
+	if (typeof json.expires_in === "number") {
+		return Date.now() + json.expires_in * 1000;
+	}
+	const at = json.expires_at ?? json.expiresOn;
+	if (typeof at === "number") {
+		// Seconds since the epoch, as in JWTs and OAuth responses
+		return at * 1000;
+	}
+	if (typeof at === "string") {
+		const time = Date.parse(at);
+		return Number.isNaN(time) ? undefined : time;
+	}
+	return undefined;
+}
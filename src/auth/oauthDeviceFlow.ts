@@ -0,0 +1,311 @@
+import * as vscode from "vscode";
+import type { AuthSettings } from "../types";
+import { ConfigManager } from "../config/configManager";
+import { logger } from "../logger";
+import { jwtClaims } from "./commandToken";
+
+type OAuthSettings = Extract<AuthSettings, { type: "oauth" }>;
+
+/** Id the provider is registered under, as declared in `contributes.authentication`. */
+export const OAUTH_PROVIDER_ID = "litellm-connector.oauth";
+
+/** Access tokens this close to expiring are refreshed before they are handed out. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+interface StoredSession {
+	id: string;
+	profileId: string;
+	scopes: string[];
+	account: { id: string; label: string };
+	accessToken: string;
+	refreshToken?: string;
+	/** When the access token expires, in ms since the epoch. */
+	expiresAt?: number;
+	tokenUrl: string;
+	clientId: string;
+}
+
+interface TokenResponse {
+	access_token?: string;
+	refresh_token?: string;
+	id_token?: string;
+	expires_in?: number;
+	error?: string;
+	error_description?: string;
+}
+
+/**
+ * Scopes to request a session for a profile with. The `profile:` scope keeps the sessions of profiles
+ * that share an identity provider apart.
+ */
+export function oauthScopes(profileId: string, settings: OAuthSettings): string[] {
+	return [`profile:${profileId}`, ...settings.scopes];
+}
+
+/**
+ * Signs in to a profile's identity provider with the OAuth 2.0 device authorization flow (RFC 8628),
+ * for proxies behind SSO. Sessions are kept in secret storage and their access tokens refreshed with the
+ * refresh token when they expire.
+ */
+export class OAuthDeviceFlowProvider implements vscode.AuthenticationProvider, vscode.Disposable {
+	private static readonly STORAGE_KEY = "litellm-connector.oauthSessions";
+
+	private readonly _onDidChangeSessions =
+		new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+	/** In-flight refreshes keyed by session id, so concurrent requests share one token request. */
+	private readonly _pendingRefreshes = new Map<string, Promise<StoredSession | undefined>>();
+
+	readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+	constructor(
+		private readonly secrets: vscode.SecretStorage,
+		private readonly configManager: ConfigManager
+	) {}
+
+	dispose(): void {
+		this._onDidChangeSessions.dispose();
+	}
+
+	/**
+	 * Sessions that have all the requested scopes. Expired access tokens are refreshed first; sessions
+	 * that cannot be refreshed are removed.
+	 */
+	async getSessions(scopes: readonly string[] | undefined): Promise<vscode.AuthenticationSession[]> {
+		const sessions: vscode.AuthenticationSession[] = [];
+		for (const stored of await this.load()) {
+			if (scopes && !scopes.every((scope) => stored.scopes.includes(scope))) {
+				continue;
+			}
+			const current = isExpiring(stored) ? await this.refreshSession(stored) : stored;
+			if (current) {
+				sessions.push(toSession(current));
+			}
+		}
+		return sessions;
+	}
+
+	/**
+	 * Sign in with the device flow: the user enters a code in the browser while the token endpoint is polled.
+	 * @throws When the scopes name no profile with OAuth settings, or sign-in fails or is cancelled.
+	 */
+	async createSession(scopes: readonly string[]): Promise<vscode.AuthenticationSession> {
+		const profileId = scopes.find((scope) => scope.startsWith("profile:"))?.slice("profile:".length);
+		const profile = (await this.configManager.getProfiles()).find((p) => p.id === profileId);
+		const settings = profile ? this.configManager.getAuthSettings(profile) : undefined;
+		if (!profile || settings?.type !== "oauth") {
+			throw new Error(`LiteLLM profile "${profileId ?? ""}" is not set up for OAuth sign-in.`);
+		}
+
+		const tokens = await this.signIn(profile.name, settings);
+		const claims = jwtClaims(tokens.id_token ?? tokens.access_token ?? "") ?? {};
+		const label = [claims.preferred_username, claims.email, claims.name, claims.sub].find(
+			(claim): claim is string => typeof claim === "string" && claim.length > 0
+		);
+		const stored: StoredSession = {
+			id: `${profile.id}-${Date.now()}`,
+			profileId: profile.id,
+			scopes: [...scopes],
+			account: { id: typeof claims.sub === "string" ? claims.sub : profile.id, label: label ?? profile.name },
+			accessToken: tokens.access_token ?? "",
+			refreshToken: tokens.refresh_token,
+			expiresAt: expiryOf(tokens),
+			tokenUrl: settings.tokenUrl,
+			clientId: settings.clientId,
+		};
+
+		// A profile has one session; signing in again replaces it
+		const sessions = await this.load();
+		const replaced = sessions.filter((s) => s.profileId === profile.id);
+		await this.save([...sessions.filter((s) => s.profileId !== profile.id), stored]);
+		logger.info(`Signed in to LiteLLM profile "${profile.name}" as ${stored.account.label}`);
+		this._onDidChangeSessions.fire({ added: [toSession(stored)], removed: replaced.map(toSession), changed: [] });
+		return toSession(stored);
+	}
+
+	async removeSession(sessionId: string): Promise<void> {
+		const sessions = await this.load();
+		const removed = sessions.filter((s) => s.id === sessionId);
+		if (removed.length === 0) {
+			return;
+		}
+		await this.save(sessions.filter((s) => s.id !== sessionId));
+		this._onDidChangeSessions.fire({ added: [], removed: removed.map(toSession), changed: [] });
+	}
+
+	/**
+	 * Get a new access token for a profile whose token the proxy rejected. Without a refresh token the
+	 * session is removed, so the next interactive request signs in again.
+	 * @returns Whether a new request gets a different token: a refreshed one, or one from signing in again.
+	 */
+	async refresh(profileId: string): Promise<boolean> {
+		const stored = (await this.load()).find((s) => s.profileId === profileId);
+		if (!stored) {
+			return false;
+		}
+		return (await this.refreshSession(stored)) !== stored;
+	}
+
+	private refreshSession(stored: StoredSession): Promise<StoredSession | undefined> {
+		let pending = this._pendingRefreshes.get(stored.id);
+		if (!pending) {
+			pending = (async () => {
+				let tokens: TokenResponse = {};
+				if (stored.refreshToken) {
+					try {
+						tokens = await this.requestToken(stored.tokenUrl, {
+							grant_type: "refresh_token",
+							refresh_token: stored.refreshToken,
+							client_id: stored.clientId,
+						});
+					} catch (err) {
+						// The identity provider could not be reached; the old token is kept and may still work
+						logger.warn(`Could not refresh the sign-in of LiteLLM profile "${stored.profileId}"`, err);
+						return stored;
+					}
+				}
+				if (!tokens.access_token) {
+					logger.warn(
+						`Sign-in of LiteLLM profile "${stored.profileId}" expired` +
+							(tokens.error ? `: ${tokens.error_description ?? tokens.error}` : "")
+					);
+					await this.removeSession(stored.id);
+					return undefined;
+				}
+				const refreshed: StoredSession = {
+					...stored,
+					accessToken: tokens.access_token,
+					refreshToken: tokens.refresh_token ?? stored.refreshToken,
+					expiresAt: expiryOf(tokens),
+				};
+				await this.save((await this.load()).map((s) => (s.id === stored.id ? refreshed : s)));
+				this._onDidChangeSessions.fire({ added: [], removed: [], changed: [toSession(refreshed)] });
+				return refreshed;
+			})().finally(() => this._pendingRefreshes.delete(stored.id));
+			this._pendingRefreshes.set(stored.id, pending);
+		}
+		return pending;
+	}
+
+	private async signIn(profileName: string, settings: OAuthSettings): Promise<TokenResponse> {
+		const resp = await fetch(settings.deviceAuthorizationUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+			body: new URLSearchParams({ client_id: settings.clientId, scope: settings.scopes.join(" ") }),
+		});
+		if (!resp.ok) {
+			throw new Error(`Device authorization failed: ${resp.status} ${resp.statusText}`);
+		}
+		const device = (await resp.json()) as {
+			device_code: string;
+			user_code: string;
+			verification_uri: string;
+			verification_uri_complete?: string;
+			expires_in?: number;
+			interval?: number;
+		};
+
+		// Not awaited: the message stays open while the token endpoint is polled
+		void vscode.window
+			.showInformationMessage(
+				`Sign in to LiteLLM profile "${profileName}" with the code ${device.user_code} at ${device.verification_uri}`,
+				"Copy Code and Open"
+			)
+			.then(async (choice) => {
+				if (choice) {
+					await vscode.env.clipboard.writeText(device.user_code);
+					await vscode.env.openExternal(vscode.Uri.parse(device.verification_uri_complete ?? device.verification_uri));
+				}
+			});
+
+		return vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Waiting for sign-in to LiteLLM profile "${profileName}"…`,
+				cancellable: true,
+			},
+			async (_progress, token) => {
+				const deadline = Date.now() + (device.expires_in ?? 900) * 1000;
+				let intervalMs = (device.interval ?? 5) * 1000;
+				while (Date.now() < deadline) {
+					await sleep(intervalMs, token);
+					const tokens = await this.requestToken(settings.tokenUrl, {
+						grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+						device_code: device.device_code,
+						client_id: settings.clientId,
+					});
+					if (tokens.access_token) {
+						return tokens;
+					}
+					if (tokens.error === "slow_down") {
+						intervalMs += 5000;
+					} else if (tokens.error !== "authorization_pending") {
+						throw new Error(`Sign-in failed: ${tokens.error_description ?? tokens.error ?? "no access token"}`);
+					}
+				}
+				throw new Error("Sign-in failed: the code expired");
+			}
+		);
+	}
+
+	/**
+	 * POST a form to the token endpoint. Errors the endpoint reports in the body are returned, not thrown.
+	 */
+	private async requestToken(tokenUrl: string, form: Record<string, string>): Promise<TokenResponse> {
+		const resp = await fetch(tokenUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+			body: new URLSearchParams(form),
+		});
+		const body = (await resp.json().catch(() => ({}))) as TokenResponse;
+		if (!resp.ok && !body.error) {
+			throw new Error(`Token request failed: ${resp.status} ${resp.statusText}`);
+		}
+		return body;
+	}
+
+	private async load(): Promise<StoredSession[]> {
+		const raw = await this.secrets.get(OAuthDeviceFlowProvider.STORAGE_KEY);
+		if (!raw) {
+			return [];
+		}
+		try {
+			const parsed = JSON.parse(raw) as StoredSession[];
+			return Array.isArray(parsed) ? parsed : [];
+		} catch {
+			return [];
+		}
+	}
+
+	private async save(sessions: StoredSession[]): Promise<void> {
+		await this.secrets.store(OAuthDeviceFlowProvider.STORAGE_KEY, JSON.stringify(sessions));
+	}
+}
+
+function toSession(stored: StoredSession): vscode.AuthenticationSession {
+	return { id: stored.id, accessToken: stored.accessToken, account: stored.account, scopes: stored.scopes };
+}
+
+function isExpiring(stored: StoredSession): boolean {
+	return stored.expiresAt !== undefined && stored.expiresAt - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+function expiryOf(tokens: TokenResponse): number | undefined {
+	return typeof tokens.expires_in === "number" ? Date.now() + tokens.expires_in * 1000 : undefined;
+}
+
+function sleep(ms: number, token: vscode.CancellationToken): Promise<void> {
+	if (token.isCancellationRequested) {
+		return Promise.reject(new Error("Sign-in cancelled"));
+	}
+	return new Promise((resolve, reject) => {
+		const registration = token.onCancellationRequested(() => {
+			clearTimeout(timer);
+			registration.dispose();
+			reject(new Error("Sign-in cancelled"));
+		});
+		const timer = setTimeout(() => {
+			registration.dispose();
+			resolve();
+		}, ms);
+	});
+}
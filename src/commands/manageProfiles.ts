@@ -0,0 +1,171 @@
+import * as vscode from "vscode";
+import { ConfigManager } from "../config/configManager";
+import type { LiteLLMProfile } from "../types";
+
+type ProfileAction = "create" | "activate" | "rename" | "delete" | "toggle" | "pin" | "unpin";
+
+export function registerManageProfilesCommand(context: vscode.ExtensionContext, configManager: ConfigManager) {
+	return vscode.commands.registerCommand("litellm-connector.manageProfiles", async () => {
+		const active = await configManager.getActiveProfile();
+		const pinned = configManager.getWorkspaceProfileName();
+
+		const actions: (vscode.QuickPickItem & { action: ProfileAction })[] = [
+			{ label: "$(add) Create profile", action: "create" },
+			{ label: "$(check) Set active profile", description: active.name, action: "activate" },
+			{ label: "$(edit) Rename profile", action: "rename" },
+			{ label: "$(eye) Enable or disable profiles", action: "toggle" },
+			{ label: "$(trash) Delete profile", action: "delete" },
+		];
+		if (vscode.workspace.workspaceFolders?.length) {
+			actions.push({ label: "$(pin) Pin profile to this workspace", description: pinned, action: "pin" });
+			if (pinned) {
+				actions.push({ label: "$(pinned) Unpin workspace profile", action: "unpin" });
+			}
+		}
+
+		const picked = await vscode.window.showQuickPick(actions, {
+			title: "Manage LiteLLM Profiles",
+			placeHolder: `Active profile: ${active.name}`,
+			ignoreFocusOut: true,
+		});
+		if (!picked) {
+			return;
+		}
+
+		try {
+			switch (picked.action) {
+				case "create":
+					await createProfile(configManager);
+					break;
+				case "activate": {
+					const profile = await pickProfile(configManager, "Set Active LiteLLM Profile");
+					if (profile) {
+						await configManager.setActiveProfile(profile.id);
+						vscode.window.showInformationMessage(`LiteLLM profile "${profile.name}" is now active.`);
+					}
+					break;
+				}
+				case "rename": {
+					const profile = await pickProfile(configManager, "Rename LiteLLM Profile");
+					if (!profile) {
+						break;
+					}
+					const name = await vscode.window.showInputBox({
+						title: "LiteLLM Profile Name",
+						prompt: `Enter a new name for "${profile.name}"`,
+						ignoreFocusOut: true,
+						value: profile.name,
+					});
+					if (name !== undefined) {
+						await configManager.renameProfile(profile.id, name);
+						if (pinned === profile.name) {
+							await configManager.setWorkspaceProfileName(name.trim());
+						}
+					}
+					break;
+				}
+				case "toggle":
+					await toggleProfiles(configManager);
+					break;
+				case "delete": {
+					const profile = await pickProfile(configManager, "Delete LiteLLM Profile");
+					if (!profile) {
+						break;
+					}
+					const confirm = await vscode.window.showWarningMessage(
+						`Delete LiteLLM profile "${profile.name}" and its stored API key?`,
+						{ modal: true },
+						"Delete"
+					);
+					if (confirm === "Delete") {
+						await configManager.deleteProfile(profile.id);
+					}
+					break;
+				}
+				case "pin": {
+					const profile = await pickProfile(configManager, "Pin LiteLLM Profile to Workspace");
+					if (profile) {
+						await configManager.setWorkspaceProfileName(profile.name);
+					}
+					break;
+				}
+				case "unpin":
+					await configManager.setWorkspaceProfileName(undefined);
+					break;
+			}
+		} catch (err: unknown) {
+			vscode.window.showErrorMessage(err instanceof Error ? err.message : String(err));
+		}
+	});
+}
+
+async function pickProfile(configManager: ConfigManager, title: string): Promise<LiteLLMProfile | undefined> {
+	const profiles = await configManager.getProfiles();
+	const active = await configManager.getActiveProfile();
+	const picked = await vscode.window.showQuickPick(
+		profiles.map((profile) => ({
+			label: profile.name,
+			description: profile.id === active.id ? "active" : profile.enabled ? undefined : "disabled",
+			profile,
+		})),
+		{ title, ignoreFocusOut: true }
+	);
+	return picked?.profile;
+}
+
+async function createProfile(configManager: ConfigManager): Promise<void> {
+	const name = await vscode.window.showInputBox({
+		title: "LiteLLM Profile Name",
+		prompt: "Enter a name for the new profile (e.g., Staging)",
+		ignoreFocusOut: true,
+	});
+	if (!name) {
+		return;
+	}
+
+	const url = await vscode.window.showInputBox({
+		title: "LiteLLM Base URL",
+		prompt: "Enter the LiteLLM base URL for this profile",
+		ignoreFocusOut: true,
+		placeHolder: "http://localhost:4000",
+	});
+	if (url === undefined) {
+		return;
+	}
+
+	const key = await vscode.window.showInputBox({
+		title: "LiteLLM API Key",
+		prompt: "Enter the LiteLLM API key for this profile (leave empty if not required)",
+		ignoreFocusOut: true,
+		password: true,
+	});
+	if (key === undefined) {
+		return;
+	}
+
+	const profile = await configManager.createProfile(name, { url: url.trim(), key: key.trim() || undefined });
+	vscode.window.showInformationMessage(`LiteLLM profile "${profile.name}" created.`);
+}
+
+async function toggleProfiles(configManager: ConfigManager): Promise<void> {
+	const profiles = await configManager.getProfiles();
+	const picked = await vscode.window.showQuickPick(
+		profiles.map((profile) => ({ label: profile.name, picked: profile.enabled, profile })),
+		{
+			title: "Enabled LiteLLM Profiles",
+			placeHolder: "Enabled profiles contribute models when litellm-connector.modelSource is allEnabledProfiles",
+			canPickMany: true,
+			ignoreFocusOut: true,
+		}
+	);
+	if (!picked) {
+		return;
+	}
+
+	const enabledIds = new Set(picked.map((p) => p.profile.id));
+	for (const profile of profiles) {
+		if (profile.enabled !== enabledIds.has(profile.id)) {
+			await configManager.setProfileEnabled(profile.id, enabledIds.has(profile.id));
+		}
+	}
+}
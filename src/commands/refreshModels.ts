@@ -0,0 +1,10 @@
+import * as vscode from "vscode";
+import type { LiteLLMChatModelProvider } from "../providers/liteLLMProvider";
+
+export function registerRefreshModelsCommand(_context: vscode.ExtensionContext, provider: LiteLLMChatModelProvider) {
+	return vscode.commands.registerCommand("litellm-connector.refreshModels", () =>
+		vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: "Refreshing LiteLLM models" }, () =>
+			provider.refreshModels()
+		)
+	);
+}
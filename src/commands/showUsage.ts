@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+import type { UsageTotals } from "../types";
+import { UsageTracker, formatCost, formatNumber } from "../usage/usageTracker";
+
+const CLEAR_LABEL = "$(trash) Clear usage history";
+
+export function registerShowUsageCommand(_context: vscode.ExtensionContext, usageTracker: UsageTracker) {
+	return vscode.commands.registerCommand("litellm-connector.showUsage", async () => {
+		const { total, byModel, byDay } = usageTracker.getSummary();
+		if (total.requests === 0) {
+			vscode.window.showInformationMessage("No LiteLLM usage has been recorded yet.");
+			return;
+		}
+
+		const items: vscode.QuickPickItem[] = [
+			{ label: "Total", kind: vscode.QuickPickItemKind.Separator },
+			usageItem("All models", total),
+			{ label: "By model", kind: vscode.QuickPickItemKind.Separator },
+			...Object.entries(byModel)
+				.sort(([, a], [, b]) => b.cost - a.cost || b.promptTokens - a.promptTokens)
+				.map(([modelId, totals]) => usageItem(modelId, totals)),
+			{ label: "By day", kind: vscode.QuickPickItemKind.Separator },
+			...byDay.map(({ day, totals }) => usageItem(day, totals)),
+			{ label: "", kind: vscode.QuickPickItemKind.Separator },
+			{ label: CLEAR_LABEL },
+		];
+
+		const picked = await vscode.window.showQuickPick(items, {
+			title: `LiteLLM Usage (last ${UsageTracker.RETENTION_DAYS} days)`,
+			matchOnDescription: true,
+		});
+		if (picked?.label !== CLEAR_LABEL) {
+			return;
+		}
+
+		const confirm = await vscode.window.showWarningMessage(
+			"Clear all recorded LiteLLM usage?",
+			{ modal: true },
+			"Clear"
+		);
+		if (confirm === "Clear") {
+			await usageTracker.clear();
+			vscode.window.showInformationMessage("LiteLLM usage history cleared.");
+		}
+	});
+}
+
+function usageItem(label: string, totals: UsageTotals): vscode.QuickPickItem {
+	const requests = `${totals.requests} request${totals.requests === 1 ? "" : "s"}`;
+	const cacheDetails = [
+		totals.cachedTokens > 0 ? `${formatNumber(totals.cachedTokens)} cached` : "",
+		totals.cacheWriteTokens > 0 ? `${formatNumber(totals.cacheWriteTokens)} written to cache` : "",
+	].filter(Boolean);
+	const cached = cacheDetails.length > 0 ? ` (${cacheDetails.join(", ")})` : "";
+	return {
+		label,
+		description: `${formatCost(totals.cost)} · ${requests}`,
+		detail: `${formatNumber(totals.promptTokens)} prompt${cached} · ${formatNumber(totals.completionTokens)} completion tokens`,
+	};
+}
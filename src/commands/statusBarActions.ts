@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import { ProxyStatusBar } from "../ui/statusBar";
+
+interface StatusBarAction extends vscode.QuickPickItem {
+	run: () => Thenable<unknown> | void;
+}
+
+export function registerStatusBarActionsCommand(_context: vscode.ExtensionContext, statusBar: ProxyStatusBar) {
+	return vscode.commands.registerCommand(ProxyStatusBar.ACTIONS_COMMAND, async () => {
+		const actions: StatusBarAction[] = [
+			{
+				label: "$(gear) Reconfigure",
+				description: "Base URL and API key of the active profile",
+				run: () => vscode.commands.executeCommand("litellm-connector.manage"),
+			},
+			{
+				label: "$(account) Manage profiles",
+				run: () => vscode.commands.executeCommand("litellm-connector.manageProfiles"),
+			},
+			{
+				label: "$(refresh) Refresh models",
+				run: () => vscode.commands.executeCommand("litellm-connector.refreshModels"),
+			},
+			{
+				label: "$(pulse) Check connection",
+				run: () => statusBar.refresh(),
+			},
+			{
+				label: "$(graph) Show usage",
+				run: () => vscode.commands.executeCommand("litellm-connector.showUsage"),
+			},
+			{
+				label: "$(output) View logs",
+				run: () => vscode.commands.executeCommand("litellm-connector.showLogs"),
+			},
+		];
+
+		const picked = await vscode.window.showQuickPick(actions, { title: "LiteLLM" });
+		await picked?.run();
+	});
+}
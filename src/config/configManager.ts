@@ -1,46 +1,465 @@
 import * as vscode from "vscode";
-import { LiteLLMConfig } from "../types";
+import {
+	AuthSettings,
+	LiteLLMConfig,
+	LiteLLMModelSource,
+	LiteLLMProfile,
+	ModelDefaults,
+	ModelFilterSettings,
+	ParameterOverrides,
+	ProfileRequestOptions,
+	ReasoningEffort,
+	SummarizationSettings,
+	TokenCountingMode,
+} from "../types";
+import { readGitBranch, substituteVariables } from "./requestVariables";
 
 export class ConfigManager {
+	static readonly SECTION = "litellm-connector";
+	static readonly DEFAULT_PROFILE_ID = "default";
+
 	private static readonly BASE_URL_KEY = "litellm-connector.baseUrl";
 	private static readonly API_KEY_KEY = "litellm-connector.apiKey";
+	private static readonly PROFILES_KEY = "litellm-connector.profiles";
+	private static readonly ACTIVE_PROFILE_KEY = "litellm-connector.activeProfile";
 
 	constructor(private readonly secrets: vscode.SecretStorage) {}
 
 	/**
-	 * Retrieves the current LiteLLM configuration from secret storage.
+	 * Retrieves the configuration of the active profile from secret storage.
 	 */
 	async getConfig(): Promise<LiteLLMConfig> {
-		const url = await this.secrets.get(ConfigManager.BASE_URL_KEY);
-		const key = await this.secrets.get(ConfigManager.API_KEY_KEY);
-		return {
+		const profile = await this.getActiveProfile();
+		return this.getProfileConfig(profile.id);
+	}
+
+	/**
+	 * Stores the configuration of the active profile in secret storage.
+	 */
+	async setConfig(config: LiteLLMConfig): Promise<void> {
+		const profile = await this.getActiveProfile();
+		await this.setProfileConfig(profile.id, config);
+	}
+
+	/**
+	 * Checks if the configuration is complete.
+	 */
+	async isConfigured(): Promise<boolean> {
+		const config = await this.getConfig();
+		return !!config.url;
+	}
+
+	/**
+	 * Lists all profiles. Installs that never created a profile have a single implicit default
+	 * profile backed by the original base URL / API key secrets.
+	 */
+	async getProfiles(): Promise<LiteLLMProfile[]> {
+		const raw = await this.secrets.get(ConfigManager.PROFILES_KEY);
+		if (raw) {
+			try {
+				const parsed = JSON.parse(raw) as LiteLLMProfile[];
+				if (Array.isArray(parsed) && parsed.length > 0) {
+					return parsed;
+				}
+			} catch {
+				/* fall through to the implicit default profile */
+			}
+		}
+		return [{ id: ConfigManager.DEFAULT_PROFILE_ID, name: "Default", enabled: true }];
+	}
+
+	/**
+	 * Resolves the profile in effect for this window. A profile pinned by the workspace
+	 * (`litellm-connector.profile`) wins over the globally selected one.
+	 */
+	async getActiveProfile(): Promise<LiteLLMProfile> {
+		const profiles = await this.getProfiles();
+		const pinned = this.getWorkspaceProfileName();
+		if (pinned) {
+			const match = profiles.find((p) => p.name === pinned || p.id === pinned);
+			if (match) {
+				return match;
+			}
+		}
+		const activeId = await this.secrets.get(ConfigManager.ACTIVE_PROFILE_KEY);
+		return profiles.find((p) => p.id === activeId) ?? profiles[0];
+	}
+
+	/**
+	 * Selects the globally active profile.
+	 */
+	async setActiveProfile(id: string): Promise<void> {
+		await this.requireProfile(id);
+		await this.secrets.store(ConfigManager.ACTIVE_PROFILE_KEY, id);
+	}
+
+	/**
+	 * Retrieves the configuration stored for a single profile, with the profile's extra headers and
+	 * metadata. Variables in them are resolved; `variables` adds request-specific ones such as `model`.
+	 */
+	async getProfileConfig(id: string, variables: Record<string, string> = {}): Promise<LiteLLMConfig> {
+		const keys = this.getSecretKeys(id);
+		const url = await this.secrets.get(keys.url);
+		const key = await this.secrets.get(keys.key);
+		const config: LiteLLMConfig = {
 			url: url || "",
 			key: key || undefined,
 		};
+
+		const profile = (await this.getProfiles()).find((p) => p.id === id);
+		const options = profile ? this.getRequestOptions(profile) : undefined;
+		if (options && (Object.keys(options.headers).length > 0 || Object.keys(options.metadata).length > 0)) {
+			const resolved = substituteVariables(options, {
+				workspaceName: vscode.workspace.name ?? "",
+				gitBranch: await readGitBranch(),
+				sessionId: vscode.env.sessionId,
+				profile: profile?.name ?? "",
+				...variables,
+			});
+			if (Object.keys(resolved.headers).length > 0) {
+				config.headers = resolved.headers;
+			}
+			if (Object.keys(resolved.metadata).length > 0) {
+				config.metadata = resolved.metadata;
+			}
+		}
+		return config;
 	}
 
 	/**
-	 * Stores the LiteLLM configuration in secret storage.
+	 * Headers and metadata configured for a profile: the `*` entry of `litellm-connector.requestOptions`
+	 * overlaid with the entry for the profile's id and then its name. Variables are left unresolved.
 	 */
-	async setConfig(config: LiteLLMConfig): Promise<void> {
+	getRequestOptions(profile: LiteLLMProfile): ProfileRequestOptions {
+		const value = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<unknown>("requestOptions");
+		const options: ProfileRequestOptions = { headers: {}, metadata: {} };
+		if (!value || typeof value !== "object") {
+			return options;
+		}
+		const entries = value as Record<string, unknown>;
+		for (const raw of [entries["*"], entries[profile.id], entries[profile.name]]) {
+			if (!raw || typeof raw !== "object") {
+				continue;
+			}
+			const { headers, metadata } = raw as Record<string, unknown>;
+			if (headers && typeof headers === "object") {
+				for (const [name, header] of Object.entries(headers)) {
+					if (typeof header === "string") {
+						options.headers[name] = header;
+					}
+				}
+			}
+			if (metadata && typeof metadata === "object" && !Array.isArray(metadata)) {
+				Object.assign(options.metadata, metadata);
+			}
+		}
+		return options;
+	}
+
+	/**
+	 * How the profile authenticates: the `*` entry of `litellm-connector.auth`, replaced by the entry for
+	 * the profile's id and then its name. Incomplete entries are ignored; without any, the stored API key is used.
+	 */
+	getAuthSettings(profile: LiteLLMProfile): AuthSettings {
+		const value = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<unknown>("auth");
+		let settings: AuthSettings = { type: "apiKey" };
+		if (!value || typeof value !== "object") {
+			return settings;
+		}
+		const entries = value as Record<string, unknown>;
+		for (const raw of [entries["*"], entries[profile.id], entries[profile.name]]) {
+			if (!raw || typeof raw !== "object") {
+				continue;
+			}
+			const entry = raw as Record<string, unknown>;
+			const text = (key: string) => (typeof entry[key] === "string" ? (entry[key] as string).trim() : "");
+			if (entry.type === "apiKey") {
+				settings = { type: "apiKey" };
+			} else if (entry.type === "command" && text("command")) {
+				settings = { type: "command", command: text("command") };
+			} else if (entry.type === "oauth" && text("deviceAuthorizationUrl") && text("tokenUrl") && text("clientId")) {
+				settings = {
+					type: "oauth",
+					deviceAuthorizationUrl: text("deviceAuthorizationUrl"),
+					tokenUrl: text("tokenUrl"),
+					clientId: text("clientId"),
+					scopes: Array.isArray(entry.scopes)
+						? entry.scopes.filter((s): s is string => typeof s === "string" && s.length > 0)
+						: [],
+				};
+			}
+		}
+		return settings;
+	}
+
+	/**
+	 * Stores the configuration for a single profile.
+	 */
+	async setProfileConfig(id: string, config: LiteLLMConfig): Promise<void> {
+		const keys = this.getSecretKeys(id);
 		if (config.url) {
-			await this.secrets.store(ConfigManager.BASE_URL_KEY, config.url);
+			await this.secrets.store(keys.url, config.url);
 		} else {
-			await this.secrets.delete(ConfigManager.BASE_URL_KEY);
+			await this.secrets.delete(keys.url);
 		}
 
 		if (config.key) {
-			await this.secrets.store(ConfigManager.API_KEY_KEY, config.key);
+			await this.secrets.store(keys.key, config.key);
 		} else {
-			await this.secrets.delete(ConfigManager.API_KEY_KEY);
+			await this.secrets.delete(keys.key);
 		}
 	}
 
 	/**
-	 * Checks if the configuration is complete.
+	 * Creates a new, enabled profile with the given name and configuration.
 	 */
-	async isConfigured(): Promise<boolean> {
-		const config = await this.getConfig();
-		return !!config.url;
+	async createProfile(name: string, config: LiteLLMConfig): Promise<LiteLLMProfile> {
+		const profiles = await this.getProfiles();
+		const trimmed = this.validateProfileName(name, profiles);
+
+		const base =
+			trimmed
+				.toLowerCase()
+				.replace(/[^a-z0-9]+/g, "-")
+				.replace(/^-|-$/g, "") || "profile";
+		let id = base;
+		for (let n = 2; profiles.some((p) => p.id === id); n++) {
+			id = `${base}-${n}`;
+		}
+
+		const profile: LiteLLMProfile = { id, name: trimmed, enabled: true };
+		await this.saveProfiles([...profiles, profile]);
+		await this.setProfileConfig(id, config);
+		return profile;
+	}
+
+	/**
+	 * Renames a profile. The id, and therefore the stored secrets, are unchanged.
+	 */
+	async renameProfile(id: string, name: string): Promise<void> {
+		const profiles = await this.getProfiles();
+		const profile = await this.requireProfile(id, profiles);
+		profile.name = this.validateProfileName(
+			name,
+			profiles.filter((p) => p.id !== id)
+		);
+		await this.saveProfiles(profiles);
+	}
+
+	/**
+	 * Includes or excludes a profile when models are listed from all enabled profiles.
+	 */
+	async setProfileEnabled(id: string, enabled: boolean): Promise<void> {
+		const profiles = await this.getProfiles();
+		const profile = await this.requireProfile(id, profiles);
+		profile.enabled = enabled;
+		await this.saveProfiles(profiles);
+	}
+
+	/**
+	 * Deletes a profile and its secrets. The last remaining profile cannot be deleted.
+	 */
+	async deleteProfile(id: string): Promise<void> {
+		const profiles = await this.getProfiles();
+		await this.requireProfile(id, profiles);
+		if (profiles.length === 1) {
+			throw new Error("Cannot delete the only LiteLLM profile.");
+		}
+
+		await this.saveProfiles(profiles.filter((p) => p.id !== id));
+		await this.setProfileConfig(id, { url: "" });
+		if ((await this.secrets.get(ConfigManager.ACTIVE_PROFILE_KEY)) === id) {
+			await this.secrets.delete(ConfigManager.ACTIVE_PROFILE_KEY);
+		}
+	}
+
+	/**
+	 * Name of the profile pinned by the current workspace, if any.
+	 */
+	getWorkspaceProfileName(): string | undefined {
+		const pinned = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<string>("profile");
+		return pinned?.trim() || undefined;
+	}
+
+	/**
+	 * Pins a profile to the current workspace, or removes the pin when `name` is undefined.
+	 */
+	async setWorkspaceProfileName(name: string | undefined): Promise<void> {
+		await vscode.workspace
+			.getConfiguration(ConfigManager.SECTION)
+			.update("profile", name, vscode.ConfigurationTarget.Workspace);
+	}
+
+	/**
+	 * Whether the model picker lists models from the active profile only or from every enabled profile.
+	 */
+	getModelSource(): LiteLLMModelSource {
+		const source = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<string>("modelSource");
+		return source === "allEnabledProfiles" ? "allEnabledProfiles" : "activeProfile";
+	}
+
+	/**
+	 * Whether token counts come from the local tokenizer or the proxy's /utils/token_counter endpoint.
+	 */
+	getTokenCountingMode(): TokenCountingMode {
+		const mode = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<string>("tokenCounting");
+		return mode === "proxy" ? "proxy" : "local";
+	}
+
+	/**
+	 * Reasoning effort to request from models that accept `reasoning_effort`, or undefined to use the model default.
+	 */
+	getReasoningEffort(): ReasoningEffort | undefined {
+		const effort = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<string>("reasoningEffort");
+		return effort === "low" || effort === "medium" || effort === "high" ? effort : undefined;
+	}
+
+	/**
+	 * Extended thinking budget in tokens for models that accept `thinking`. Zero disables it.
+	 */
+	getThinkingBudget(): number {
+		const budget = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<number>("thinkingBudget");
+		return typeof budget === "number" && budget > 0 ? Math.floor(budget) : 0;
+	}
+
+	/**
+	 * Whether `/responses` conversations continue from the previous response id instead of replaying history.
+	 */
+	getStatefulResponses(): boolean {
+		return vscode.workspace.getConfiguration(ConfigManager.SECTION).get<boolean>("statefulResponses") ?? true;
+	}
+
+	/**
+	 * How long a cached model list is served before it is refreshed in the background.
+	 */
+	getModelCacheTtlMs(): number {
+		const minutes = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<number>("modelCacheTtlMinutes");
+		return (typeof minutes === "number" && minutes >= 0 ? minutes : 60) * 60_000;
+	}
+
+	/**
+	 * Most images sent per request; older ones are omitted.
+	 */
+	getMaxImageCount(): number {
+		const count = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<number>("images.maxCount");
+		return typeof count === "number" && count >= 1 ? Math.floor(count) : 20;
+	}
+
+	/**
+	 * Whether and with which model dropped conversation turns are summarized.
+	 */
+	getSummarizationSettings(): SummarizationSettings {
+		const config = vscode.workspace.getConfiguration(ConfigManager.SECTION);
+		const model = config.get<string>("summarization.model")?.trim();
+		return { enabled: config.get<boolean>("summarization.enabled") === true, model: model || undefined };
+	}
+
+	/**
+	 * Generation settings keyed by model name glob. Values of the wrong type are left out.
+	 */
+	getModelDefaults(): Record<string, ModelDefaults> {
+		const value = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<unknown>("modelDefaults");
+		if (!value || typeof value !== "object") {
+			return {};
+		}
+		const result: Record<string, ModelDefaults> = {};
+		for (const [glob, raw] of Object.entries(value as Record<string, unknown>)) {
+			if (!raw || typeof raw !== "object") {
+				continue;
+			}
+			const entry = raw as Record<string, unknown>;
+			const defaults: ModelDefaults = {};
+			for (const key of ["temperature", "top_p", "frequency_penalty", "presence_penalty", "max_tokens"] as const) {
+				if (typeof entry[key] === "number") {
+					defaults[key] = entry[key];
+				}
+			}
+			const stop = entry.stop;
+			if (typeof stop === "string" || (Array.isArray(stop) && stop.every((s) => typeof s === "string"))) {
+				defaults.stop = stop;
+			}
+			if (entry.extra_body && typeof entry.extra_body === "object" && !Array.isArray(entry.extra_body)) {
+				defaults.extra_body = entry.extra_body as Record<string, unknown>;
+			}
+			result[glob] = defaults;
+		}
+		return result;
+	}
+
+	/**
+	 * Parameters the user marked as supported (`true`) or unsupported (`false`) per model glob.
+	 */
+	getParameterOverrides(): ParameterOverrides {
+		const value = vscode.workspace.getConfiguration(ConfigManager.SECTION).get<unknown>("parameterSupport");
+		if (!value || typeof value !== "object") {
+			return {};
+		}
+		const overrides: ParameterOverrides = {};
+		for (const [glob, params] of Object.entries(value)) {
+			if (params && typeof params === "object") {
+				overrides[glob] = Object.fromEntries(
+					Object.entries(params).filter((e): e is [string, boolean] => typeof e[1] === "boolean")
+				);
+			}
+		}
+		return overrides;
+	}
+
+	/**
+	 * Filters and display-name aliases applied to the model list.
+	 */
+	getModelFilterSettings(): ModelFilterSettings {
+		const config = vscode.workspace.getConfiguration(ConfigManager.SECTION);
+		const strings = (key: string, fallback: string[]): string[] => {
+			const value = config.get<unknown>(key);
+			return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.length > 0) : fallback;
+		};
+		const aliases = config.get<unknown>("models.aliases");
+		return {
+			include: strings("models.include", []),
+			exclude: strings("models.exclude", []),
+			modes: strings("models.modes", ["chat", "responses"]),
+			tags: strings("models.tags", []),
+			aliases:
+				aliases && typeof aliases === "object"
+					? Object.fromEntries(
+							Object.entries(aliases).filter((e): e is [string, string] => typeof e[1] === "string" && e[1].length > 0)
+						)
+					: {},
+		};
+	}
+
+	private getSecretKeys(id: string): { url: string; key: string } {
+		// The default profile keeps the original secret names so existing installs need no migration.
+		if (id === ConfigManager.DEFAULT_PROFILE_ID) {
+			return { url: ConfigManager.BASE_URL_KEY, key: ConfigManager.API_KEY_KEY };
+		}
+		return {
+			url: `${ConfigManager.PROFILES_KEY}.${id}.baseUrl`,
+			key: `${ConfigManager.PROFILES_KEY}.${id}.apiKey`,
+		};
+	}
+
+	private async saveProfiles(profiles: LiteLLMProfile[]): Promise<void> {
+		await this.secrets.store(ConfigManager.PROFILES_KEY, JSON.stringify(profiles));
+	}
+
+	private async requireProfile(id: string, profiles?: LiteLLMProfile[]): Promise<LiteLLMProfile> {
+		const profile = (profiles ?? (await this.getProfiles())).find((p) => p.id === id);
+		if (!profile) {
+			throw new Error(`LiteLLM profile "${id}" does not exist.`);
+		}
+		return profile;
+	}
+
+	private validateProfileName(name: string, others: LiteLLMProfile[]): string {
+		const trimmed = name.trim();
+		if (!trimmed) {
+			throw new Error("Profile name cannot be empty.");
+		}
+		if (others.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+			throw new Error(`A LiteLLM profile named "${trimmed}" already exists.`);
+		}
+		return trimmed;
 	}
 }
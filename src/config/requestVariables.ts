@@ -0,0 +1,49 @@
+import { readFile } from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * Replace `${name}` and `${env:NAME}` references in every string of a value, including strings in
+ * nested objects and arrays. Unknown variables and unset environment variables become empty.
+ */
+export function substituteVariables<T>(value: T, variables: Readonly<Record<string, string>>): T {
+	if (typeof value === "string") {
+		return value.replace(/\$\{(env:)?([\w.-]+)\}/g, (_match, env: string | undefined, name: string) =>
+			env ? (process.env[name] ?? "") : Object.hasOwn(variables, name) ? variables[name] : ""
+		) as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => substituteVariables(item, variables)) as T;
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, substituteVariables(item, variables)])
+		) as T;
+	}
+	return value;
+}
+
+/**
+ * Branch checked out in the first workspace folder, read from `.git/HEAD` (following the `gitdir:`
+ * pointer of worktrees and submodules). A detached HEAD gives the short commit id.
+ * @returns The branch, or an empty string outside a git repository.
+ */
+export async function readGitBranch(): Promise<string> {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (!folder || folder.uri.scheme !== "file") {
+		return "";
+	}
+	try {
+		let gitDir = path.join(folder.uri.fsPath, ".git");
+		const pointer = await readFile(gitDir, "utf8").catch(() => undefined);
+		const match = pointer && /^gitdir:\s*(.+)$/m.exec(pointer);
+		if (match) {
+			gitDir = path.resolve(folder.uri.fsPath, match[1].trim());
+		}
+		const head = (await readFile(path.join(gitDir, "HEAD"), "utf8")).trim();
+		const ref = /^ref:\s*refs\/heads\/(.+)$/.exec(head);
+		return ref ? ref[1] : head.slice(0, 7);
+	} catch {
+		return "";
+	}
+}
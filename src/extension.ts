@@ -2,8 +2,23 @@ import * as vscode from "vscode";
 import { LiteLLMChatModelProvider } from "./providers/liteLLMProvider";
 import { ConfigManager } from "./config/configManager";
 import { registerManageConfigCommand } from "./commands/manageConfig";
+import { registerManageProfilesCommand } from "./commands/manageProfiles";
+import { registerShowUsageCommand } from "./commands/showUsage";
+import { registerStatusBarActionsCommand } from "./commands/statusBarActions";
+import { registerRefreshModelsCommand } from "./commands/refreshModels";
+import { ModelListCache } from "./providers/modelListCache";
+import { ParameterRegistry } from "./providers/parameterRegistry";
+import { AuthManager } from "./auth/authManager";
+import { OAUTH_PROVIDER_ID, OAuthDeviceFlowProvider } from "./auth/oauthDeviceFlow";
+import { ProxyStatusBar } from "./ui/statusBar";
+import { initializeLogger, showLogs } from "./logger";
+import { UsageTracker } from "./usage/usageTracker";
 
 export function activate(context: vscode.ExtensionContext) {
+	// Diagnostics go to the "LiteLLM" output channel; set its level to Trace for request bodies and raw SSE
+	context.subscriptions.push(initializeLogger());
+	context.subscriptions.push(vscode.commands.registerCommand("litellm-connector.showLogs", showLogs));
+
 	// Build a descriptive User-Agent to help quantify API usage
 	const ext = vscode.extensions.getExtension("gethnet.litellm-vscode-chat");
 	const extVersion = ext?.packageJSON?.version ?? "unknown";
@@ -12,13 +27,43 @@ export function activate(context: vscode.ExtensionContext) {
 	const ua = `litellm-vscode-chat/${extVersion} VSCode/${vscodeVersion}`;
 
 	const configManager = new ConfigManager(context.secrets);
-	const provider = new LiteLLMChatModelProvider(context.secrets, ua);
+	const usageTracker = new UsageTracker(context.globalState);
+
+	// Sign-in for profiles whose proxy sits behind SSO; the credential of every request comes from the auth manager
+	const oauth = new OAuthDeviceFlowProvider(context.secrets, configManager);
+	context.subscriptions.push(
+		vscode.authentication.registerAuthenticationProvider(OAUTH_PROVIDER_ID, "LiteLLM", oauth),
+		oauth
+	);
+	const authManager = new AuthManager(configManager, oauth);
+
+	const provider = new LiteLLMChatModelProvider(
+		context.secrets,
+		ua,
+		usageTracker,
+		new ModelListCache(context.globalState),
+		new ParameterRegistry(context.globalState),
+		authManager
+	);
 
 	// Register the LiteLLM provider under the vendor id used in package.json
-	vscode.lm.registerLanguageModelChatProvider("litellm-connector", provider);
+	context.subscriptions.push(vscode.lm.registerLanguageModelChatProvider("litellm-connector", provider), provider);
+
+	// Fetch model lists again without waiting for the cache TTL
+	context.subscriptions.push(registerRefreshModelsCommand(context, provider));
 
-	// Management command to configure base URL and API key
+	// Management command to configure base URL and API key of the active profile
 	context.subscriptions.push(registerManageConfigCommand(context, configManager));
+
+	// Profile management: create, rename, delete, switch and pin profiles
+	context.subscriptions.push(registerManageProfilesCommand(context, configManager));
+
+	// Token and cost totals recorded from chat responses
+	context.subscriptions.push(registerShowUsageCommand(context, usageTracker), usageTracker);
+
+	// Proxy health and last request stats in the status bar, with a quick pick of common actions
+	const statusBar = new ProxyStatusBar(configManager, ua, provider, authManager);
+	context.subscriptions.push(statusBar, registerStatusBarActionsCommand(context, statusBar));
 }
 
 export function deactivate() {}
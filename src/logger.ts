@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+
+/**
+ * Extension-wide log sink. Messages go to the "LiteLLM" log output channel once the extension has
+ * activated; before that (and in unit tests) warnings and errors fall back to the console.
+ */
+let channel: vscode.LogOutputChannel | undefined;
+
+const SECRET_KEYS = /^(api[_-]?key|x-api-key|authorization|password|secret|access_token|refresh_token|client_secret)$/i;
+const DATA_URL = /^data:([^;,]+);base64,(.*)$/s;
+/** Keys of raw base64 payloads, such as `input_audio.data` and `file.file_data`. */
+const PAYLOAD_KEYS = /^(data|file_data|b64_json)$/;
+/** Base64 too long to be a readable value under one of the {@link PAYLOAD_KEYS}. */
+const BASE64 = /^[A-Za-z0-9+/=\s]{64,}$/;
+
+/**
+ * Create the output channel and route all logging to it.
+ */
+export function initializeLogger(): vscode.LogOutputChannel {
+	channel = vscode.window.createOutputChannel("LiteLLM", { log: true });
+	return channel;
+}
+
+/**
+ * Reveal the log output channel.
+ */
+export function showLogs(): void {
+	channel?.show(true);
+}
+
+export const logger = {
+	trace(message: string, ...args: unknown[]): void {
+		channel?.trace(message, ...args);
+	},
+	debug(message: string, ...args: unknown[]): void {
+		channel?.debug(message, ...args);
+	},
+	info(message: string, ...args: unknown[]): void {
+		channel?.info(message, ...args);
+	},
+	warn(message: string, ...args: unknown[]): void {
+		if (channel) {
+			channel.warn(message, ...args);
+		} else {
+			console.warn(`[LiteLLM] ${message}`, ...args);
+		}
+	},
+	error(message: string | Error, ...args: unknown[]): void {
+		if (channel) {
+			channel.error(message, ...args);
+		} else {
+			console.error("[LiteLLM]", message, ...args);
+		}
+	},
+	/**
+	 * Whether trace output is visible. Check before building expensive trace messages.
+	 */
+	get isTraceEnabled(): boolean {
+		return channel?.logLevel === vscode.LogLevel.Trace;
+	},
+};
+
+/**
+ * Deep copy of a request body or header map that is safe to attach to a bug report: credentials are
+ * replaced and base64 payloads (images, files, audio), whether data URLs or raw, are reduced to their size.
+ */
+export function redact(value: unknown): unknown {
+	if (typeof value === "string") {
+		const match = DATA_URL.exec(value);
+		return match ? `data:${match[1]};base64,<${Math.floor((match[2].length * 3) / 4)} bytes>` : value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(redact);
+	}
+	if (value && typeof value === "object") {
+		const out: Record<string, unknown> = {};
+		for (const [key, inner] of Object.entries(value)) {
+			if (SECRET_KEYS.test(key)) {
+				out[key] = "<redacted>";
+			} else if (PAYLOAD_KEYS.test(key) && typeof inner === "string" && BASE64.test(inner)) {
+				out[key] = `<${Math.floor((inner.length * 3) / 4)} bytes>`;
+			} else {
+				out[key] = redact(inner);
+			}
+		}
+		return out;
+	}
+	return value;
+}
@@ -0,0 +1,185 @@
+import { createHash } from "crypto";
+import * as vscode from "vscode";
+import type { LiteLLMClient } from "../adapters/litellmClient";
+import { isToolResultPart } from "../utils";
+
+/** Longest summary requested from the summarizing model. */
+export const SUMMARY_MAX_TOKENS = 1024;
+
+/** Summaries remembered at once. */
+const MAX_ENTRIES = 50;
+/** Tool output beyond this many characters is cut from the transcript. */
+const MAX_TOOL_RESULT_CHARS = 2000;
+/** The transcript sent for summarization keeps this many characters from its end. */
+const MAX_TRANSCRIPT_CHARS = 200_000;
+
+const SUMMARY_INSTRUCTIONS =
+	"You summarize the earlier part of a conversation between a user and an AI coding assistant so the " +
+	"assistant can continue the work without it. Keep the user's goals and constraints, decisions made, " +
+	"files and symbols involved, results of tool calls that still matter, and open questions or next steps. " +
+	"Be concise and factual. Reply with the summary only.";
+
+/** System role of the proposed chat provider API; the stable enum only has User and Assistant. */
+const SYSTEM_ROLE = 3 as vscode.LanguageModelChatMessageRole;
+
+/**
+ * Summarizes conversation turns that were dropped to fit the context window.
+ *
+ * Summaries are stored under a hash of the dropped messages. When more turns are dropped later, the
+ * summary of the longest already summarized prefix is extended with just the newly dropped turns.
+ */
+export class ConversationSummarizer {
+	private readonly _summaries = new Map<string, string>();
+	private readonly _pending = new Map<string, Promise<string | undefined>>();
+
+	/**
+	 * Summary of `dropped`, from the cache when these messages were summarized before.
+	 * @returns The summary, or undefined when the model returned none.
+	 */
+	async summarize(
+		client: LiteLLMClient,
+		model: string,
+		dropped: readonly vscode.LanguageModelChatRequestMessage[],
+		token?: vscode.CancellationToken
+	): Promise<string | undefined> {
+		const entries = dropped.map(toTranscriptEntry);
+		const prefixHashes = this.prefixHashes(model, entries);
+		const fullHash = prefixHashes[entries.length];
+		const cached = this._summaries.get(fullHash);
+		if (cached) {
+			return cached;
+		}
+
+		let pending = this._pending.get(fullHash);
+		if (!pending) {
+			let start = 0;
+			let previous: string | undefined;
+			for (let length = entries.length - 1; length > 0; length--) {
+				previous = this._summaries.get(prefixHashes[length]);
+				if (previous) {
+					start = length;
+					break;
+				}
+			}
+			pending = this.request(client, model, previous, entries.slice(start), token)
+				.then((summary) => {
+					if (summary) {
+						this.remember(fullHash, summary);
+					}
+					return summary;
+				})
+				.finally(() => this._pending.delete(fullHash));
+			this._pending.set(fullHash, pending);
+		}
+		return pending;
+	}
+
+	/**
+	 * Insert a summary as a system note after the leading system messages.
+	 */
+	static withSummary(
+		messages: readonly vscode.LanguageModelChatRequestMessage[],
+		summary: string
+	): vscode.LanguageModelChatRequestMessage[] {
+		const note: vscode.LanguageModelChatRequestMessage = {
+			role: SYSTEM_ROLE,
+			content: [
+				new vscode.LanguageModelTextPart(`Summary of the earlier conversation, which was shortened:\n\n${summary}`),
+			],
+			name: undefined,
+		};
+		let index = 0;
+		while (
+			index < messages.length &&
+			messages[index].role !== vscode.LanguageModelChatMessageRole.User &&
+			messages[index].role !== vscode.LanguageModelChatMessageRole.Assistant
+		) {
+			index++;
+		}
+		return [...messages.slice(0, index), note, ...messages.slice(index)];
+	}
+
+	private async request(
+		client: LiteLLMClient,
+		model: string,
+		previous: string | undefined,
+		entries: readonly string[],
+		token?: vscode.CancellationToken
+	): Promise<string | undefined> {
+		let transcript = entries.join("\n\n");
+		if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+			transcript = transcript.slice(-MAX_TRANSCRIPT_CHARS);
+		}
+		const prompt = previous
+			? `Summary of the conversation so far:\n\n${previous}\n\nUpdate it with these later messages:\n\n${transcript}`
+			: `Summarize this conversation:\n\n${transcript}`;
+
+		const stream = await client.chat(
+			{
+				model,
+				messages: [
+					{ role: "system", content: SUMMARY_INSTRUCTIONS },
+					{ role: "user", content: prompt },
+				],
+				stream: false,
+				max_tokens: SUMMARY_MAX_TOKENS,
+			},
+			undefined,
+			token
+		);
+		const response = (await new Response(stream).json()) as {
+			choices?: { message?: { content?: string | null } }[];
+		};
+		return response.choices?.[0]?.message?.content?.trim() || undefined;
+	}
+
+	private remember(hash: string, summary: string): void {
+		this._summaries.delete(hash);
+		this._summaries.set(hash, summary);
+		if (this._summaries.size > MAX_ENTRIES) {
+			this._summaries.delete(this._summaries.keys().next().value as string);
+		}
+	}
+
+	/**
+	 * `hashes[n]` identifies the first `n` transcript entries for the model.
+	 */
+	private prefixHashes(model: string, entries: readonly string[]): string[] {
+		const hashes = [createHash("sha256").update(model).digest("hex")];
+		for (const entry of entries) {
+			hashes.push(
+				createHash("sha256")
+					.update(hashes[hashes.length - 1])
+					.update(entry)
+					.digest("hex")
+			);
+		}
+		return hashes;
+	}
+}
+
+/**
+ * Plain-text rendering of a message for the summarizing model.
+ */
+function toTranscriptEntry(message: vscode.LanguageModelChatRequestMessage): string {
+	const role = message.role === vscode.LanguageModelChatMessageRole.Assistant ? "Assistant" : "User";
+	const lines: string[] = [];
+	for (const part of message.content) {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			lines.push(part.value);
+		} else if (part instanceof vscode.LanguageModelToolCallPart) {
+			lines.push(`[Called ${part.name} with ${JSON.stringify(part.input ?? {})}]`);
+		} else if (isToolResultPart(part)) {
+			let output = (part.content ?? [])
+				.map((item) => (item instanceof vscode.LanguageModelTextPart ? item.value : ""))
+				.join("");
+			if (output.length > MAX_TOOL_RESULT_CHARS) {
+				output = `${output.slice(0, MAX_TOOL_RESULT_CHARS)} [...]`;
+			}
+			lines.push(`[Tool result ${part.callId}]\n${output}`);
+		} else if (part instanceof vscode.LanguageModelDataPart) {
+			lines.push(`[Attachment: ${part.mimeType}]`);
+		}
+	}
+	return `${role}: ${lines.join("\n")}`;
+}
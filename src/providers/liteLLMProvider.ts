@@ -1,3 +1,4 @@
+import { createHash } from "crypto";
 import * as vscode from "vscode";
 import {
 	CancellationToken,
@@ -9,55 +10,140 @@ import {
 	ProvideLanguageModelChatResponseOptions,
 } from "vscode";
 
-import type { LiteLLMModelInfo, OpenAIChatCompletionRequest, OpenAIFunctionToolDef } from "../types";
-import { convertTools, convertMessages, tryParseJSONObject, validateRequest } from "../utils";
+import type {
+	ChatRequestOutcome,
+	LiteLLMConfig,
+	LiteLLMModelEntry,
+	LiteLLMModelInfo,
+	LiteLLMProfile,
+	LiteLLMResponsesRequest,
+	OpenAIChatCompletionRequest,
+	OpenAIChatMessage,
+	OpenAIFunctionToolDef,
+	ResponseUsage,
+} from "../types";
+import { convertTools, convertMessages, validateRequest } from "../utils";
 import { ConfigManager } from "../config/configManager";
 import { LiteLLMClient } from "../adapters/litellmClient";
-import { DEFAULT_MAX_OUTPUT_TOKENS, DEFAULT_CONTEXT_LENGTH, trimMessagesToFitBudget } from "../adapters/tokenUtils";
-
-const KNOWN_PARAMETER_LIMITATIONS: Record<string, Set<string>> = {
-	"claude-3-5-sonnet": new Set(["temperature"]),
-	"claude-3-5-haiku": new Set(["temperature"]),
-	"claude-3-opus": new Set(["temperature"]),
-	"claude-3-sonnet": new Set(["temperature"]),
-	"claude-3-haiku": new Set(["temperature"]),
-	"claude-haiku-4-5": new Set(["temperature"]),
-	"gpt-5.1-codex": new Set(["temperature", "frequency_penalty", "presence_penalty"]),
-	"gpt-5.1-codex-mini": new Set(["temperature", "frequency_penalty", "presence_penalty"]),
-	"gpt-5.1-codex-max": new Set(["temperature", "frequency_penalty", "presence_penalty"]),
-	"codex-mini-latest": new Set(["temperature", "frequency_penalty", "presence_penalty"]),
-	"o1-preview": new Set(["temperature", "top_p", "presence_penalty", "frequency_penalty"]),
-	"o1-mini": new Set(["temperature", "top_p", "presence_penalty", "frequency_penalty"]),
-	"o1-": new Set(["temperature", "top_p", "presence_penalty", "frequency_penalty"]),
-};
-
-export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
-	private _parameterProbeCache: Map<string, Set<string>> = new Map<string, Set<string>>();
-	private _modelInfoCache: Map<string, LiteLLMModelInfo | undefined> = new Map<string, LiteLLMModelInfo | undefined>();
-	private _configManager: ConfigManager;
+import { AuthManager } from "../auth/authManager";
+import { OAUTH_PROVIDER_ID } from "../auth/oauthDeviceFlow";
+import {
+	DEFAULT_MAX_OUTPUT_TOKENS,
+	DEFAULT_CONTEXT_LENGTH,
+	estimateSingleMessageTokens,
+	isAnthropicModel,
+	splitMessagesToFitBudget,
+} from "../adapters/tokenUtils";
+import { getTokenizer } from "../adapters/tokenizer";
+import { getImageLimits, prepareImages } from "../adapters/imageProcessor";
+import { ProxyTokenCounter } from "../adapters/proxyTokenCounter";
+import { StreamingSession } from "./streamingSession";
+import { logger } from "../logger";
+import type { UsageTracker } from "../usage/usageTracker";
+import type { ModelListCache } from "./modelListCache";
+import { filterModelEntries } from "./modelFilter";
+import { resolveGenerationSettings } from "./modelDefaults";
+import {
+	conflictingParameters,
+	OPTIONAL_PARAMETERS,
+	ParameterRegistry,
+	parseRejectedParameters,
+} from "./parameterRegistry";
+import { ResponsesConversationStore } from "./responsesConversationStore";
+import { ConversationSummarizer, SUMMARY_MAX_TOKENS } from "./conversationSummarizer";
+import {
+	addFormatInstructions,
+	parseResponseFormat,
+	StructuredOutputBuffer,
+	supportsResponseFormat,
+} from "./structuredOutput";
+
+/** Requests sent again after the proxy rejected a parameter, before giving up. */
+const MAX_PARAMETER_RETRIES = 3;
 
-	// Streaming state
-	private _toolCallBuffers: Map<number, { id?: string; name?: string; args: string }> = new Map<
-		number,
-		{ id?: string; name?: string; args: string }
+export class LiteLLMChatModelProvider implements LanguageModelChatProvider, vscode.Disposable {
+	private _modelInfoCache: Map<string, LiteLLMModelInfo | undefined> = new Map<string, LiteLLMModelInfo | undefined>();
+	/** Maps picker model ids to the profile that serves them and the model name the proxy expects. */
+	private _modelRoutes: Map<string, { profileId: string; modelName: string }> = new Map<
+		string,
+		{ profileId: string; modelName: string }
 	>();
-	private _completedToolCallIndices = new Set<number>();
-	private _hasEmittedAssistantText = false;
-	private _emittedBeginToolCallsHint = false;
-	private _partialAssistantText = "";
-	private _textToolParserBuffer = "";
-	private _textToolActive: { name?: string; index?: number; argBuffer: string; emitted?: boolean } | undefined =
-		undefined;
-	private _emittedTextToolCallKeys = new Set<string>();
-	private _emittedTextToolCallIds = new Set<string>();
-	private _lastEmittedText = "";
-	private _repeatCount = 0;
+	private _configManager: ConfigManager;
+	private readonly _auth: AuthManager;
+	private readonly _proxyTokenCounter = new ProxyTokenCounter();
+	private readonly _responsesConversations = new ResponsesConversationStore();
+	private readonly _summarizer = new ConversationSummarizer();
+	private readonly _onDidChangeLanguageModelChatInformation = new vscode.EventEmitter<void>();
+	private readonly _onDidCompleteRequest = new vscode.EventEmitter<ChatRequestOutcome>();
+	private readonly _disposables: vscode.Disposable[] = [];
+	/** In-flight `/model/info` requests keyed by profile and URL, so concurrent lookups share one fetch. */
+	private readonly _pendingModelFetches = new Map<string, Promise<LiteLLMModelEntry[]>>();
+
+	readonly onDidChangeLanguageModelChatInformation = this._onDidChangeLanguageModelChatInformation.event;
+	/** Fires after every chat request that was not cancelled, successful or not. */
+	readonly onDidCompleteRequest = this._onDidCompleteRequest.event;
 
 	constructor(
 		private readonly secrets: vscode.SecretStorage,
-		private readonly userAgent: string
+		private readonly userAgent: string,
+		private readonly usageTracker?: UsageTracker,
+		private readonly modelCache?: ModelListCache,
+		private readonly parameterRegistry: ParameterRegistry = new ParameterRegistry(),
+		authManager?: AuthManager
 	) {
 		this._configManager = new ConfigManager(secrets);
+		this._auth = authManager ?? new AuthManager(this._configManager);
+
+		// Profile edits and switches change which models are available
+		this._disposables.push(
+			secrets.onDidChange((e) => {
+				if (e.key.startsWith(`${ConfigManager.SECTION}.`)) {
+					this._onDidChangeLanguageModelChatInformation.fire();
+				}
+			}),
+			vscode.workspace.onDidChangeConfiguration((e) => {
+				if (
+					e.affectsConfiguration(`${ConfigManager.SECTION}.profile`) ||
+					e.affectsConfiguration(`${ConfigManager.SECTION}.modelSource`) ||
+					e.affectsConfiguration(`${ConfigManager.SECTION}.models`)
+				) {
+					this._onDidChangeLanguageModelChatInformation.fire();
+				}
+			}),
+			// Signing in to an OAuth profile makes its models available
+			vscode.authentication.onDidChangeSessions((e) => {
+				if (e.provider.id === OAUTH_PROVIDER_ID) {
+					this._onDidChangeLanguageModelChatInformation.fire();
+				}
+			})
+		);
+	}
+
+	dispose(): void {
+		this._disposables.forEach((d) => d.dispose());
+		this._onDidChangeLanguageModelChatInformation.dispose();
+		this._onDidCompleteRequest.dispose();
+	}
+
+	/**
+	 * Fetch the model lists of all listed profiles now, ignoring the cache TTL, and ask VS Code to
+	 * query the models again. Profiles that fail keep their cached list.
+	 */
+	async refreshModels(): Promise<void> {
+		const profiles = await this.getListedProfiles();
+		await this.modelCache?.prune((await this._configManager.getProfiles()).map((p) => p.id));
+		for (const profile of profiles) {
+			const config = await this._configManager.getProfileConfig(profile.id);
+			if (!config.url) {
+				continue;
+			}
+			try {
+				await this.fetchModelEntries(profile.id, config, true);
+			} catch (err) {
+				logger.error(`Failed to refresh models for profile "${profile.name}"`, err);
+			}
+		}
+		this._onDidChangeLanguageModelChatInformation.fire();
 	}
 
 	async provideLanguageModelChatInformation(
@@ -65,50 +151,125 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 		_token: CancellationToken
 	): Promise<LanguageModelChatInformation[]> {
 		try {
-			const config = await this._configManager.getConfig();
-			if (!config.url) {
-				return [];
-			}
-
-			const client = new LiteLLMClient(config, this.userAgent);
-			const { data } = await client.getModelInfo();
-
-			const infos: LanguageModelChatInformation[] = (data || []).map(
-				(entry: { model_info?: LiteLLMModelInfo; model_name?: string }, index: number) => {
-					const modelId = entry.model_info?.key ?? entry.model_name ?? `model-${index}`;
-					const modelInfo = entry.model_info;
-					this._modelInfoCache.set(modelId, modelInfo);
-
-					const maxInputTokens = modelInfo?.max_input_tokens ?? DEFAULT_CONTEXT_LENGTH;
-					const maxOutputTokens = modelInfo?.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
-
-					// Build capabilities based on model_info flags
-					const capabilities = this.buildCapabilities(modelInfo);
-
-					const info = {
-						id: modelId,
-						name: entry.model_name ?? modelId,
-						tooltip: `${modelInfo?.litellm_provider ?? "LiteLLM"} (${modelInfo?.mode ?? "responses"})`,
-						family: "litellm",
-						version: "1.0.0",
-						maxInputTokens: Math.max(1, maxInputTokens),
-						maxOutputTokens: Math.max(1, maxOutputTokens),
-						capabilities,
-					} satisfies LanguageModelChatInformation;
-
-					// If model has exceptionally high context, ensure we don't overflow VS Code's expectations if any
-					// but generally we trust model_info
-					return info;
+			const profiles = await this.getListedProfiles();
+			const qualifyNames = profiles.length > 1;
+
+			const infos: LanguageModelChatInformation[] = [];
+			for (const profile of profiles) {
+				try {
+					infos.push(...(await this.fetchProfileModels(profile, qualifyNames)));
+				} catch (err) {
+					logger.error(`Failed to fetch models for profile "${profile.name}"`, err);
 				}
-			);
-
+			}
 			return infos;
 		} catch (err) {
-			console.error("[LiteLLM Model Provider] Failed to fetch models", err);
+			logger.error("Failed to fetch models", err);
 			return [];
 		}
 	}
 
+	/**
+	 * Fetch the models served by one profile. When several profiles are listed together, model ids
+	 * are prefixed with the profile id and names carry the profile name so the picker can tell them apart.
+	 */
+	private async fetchProfileModels(
+		profile: LiteLLMProfile,
+		qualifyNames: boolean
+	): Promise<LanguageModelChatInformation[]> {
+		const config = await this._configManager.getProfileConfig(profile.id);
+		if (!config.url) {
+			return [];
+		}
+
+		const filterSettings = this._configManager.getModelFilterSettings();
+		const data = filterModelEntries(await this.getModelEntries(profile.id, config), filterSettings);
+
+		return data.map((entry: { model_info?: LiteLLMModelInfo; model_name?: string }, index: number) => {
+			const modelName = entry.model_info?.key ?? entry.model_name ?? `model-${index}`;
+			const modelId = qualifyNames ? `${profile.id}/${modelName}` : modelName;
+			const modelInfo = entry.model_info;
+			this._modelInfoCache.set(modelId, modelInfo);
+			this._modelRoutes.set(modelId, { profileId: profile.id, modelName });
+
+			const maxInputTokens = modelInfo?.max_input_tokens ?? DEFAULT_CONTEXT_LENGTH;
+			const maxOutputTokens = modelInfo?.max_output_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+
+			// Build capabilities based on model_info flags
+			const capabilities = this.buildCapabilities(modelInfo);
+			const displayName = filterSettings.aliases[entry.model_name ?? modelName] ?? entry.model_name ?? modelName;
+
+			const info = {
+				id: modelId,
+				name: qualifyNames ? `${displayName} (${profile.name})` : displayName,
+				tooltip: `${modelInfo?.litellm_provider ?? "LiteLLM"} (${modelInfo?.mode ?? "responses"})`,
+				family: "litellm",
+				version: "1.0.0",
+				maxInputTokens: Math.max(1, maxInputTokens),
+				maxOutputTokens: Math.max(1, maxOutputTokens),
+				capabilities,
+			} satisfies LanguageModelChatInformation;
+
+			// If model has exceptionally high context, ensure we don't overflow VS Code's expectations if any
+			// but generally we trust model_info
+			return info;
+		});
+	}
+
+	private async getListedProfiles(): Promise<LiteLLMProfile[]> {
+		return this._configManager.getModelSource() === "allEnabledProfiles"
+			? (await this._configManager.getProfiles()).filter((p) => p.enabled)
+			: [await this._configManager.getActiveProfile()];
+	}
+
+	/**
+	 * Model entries for a profile. A cached list is served immediately; once it is older than the
+	 * configured TTL a background fetch replaces it and signals a change if the models differ.
+	 */
+	private async getModelEntries(profileId: string, config: LiteLLMConfig): Promise<LiteLLMModelEntry[]> {
+		const cached = this.modelCache?.get(profileId, config.url);
+		if (!cached) {
+			return this.fetchModelEntries(profileId, config);
+		}
+
+		if (Date.now() - cached.fetchedAt >= this._configManager.getModelCacheTtlMs()) {
+			this.fetchModelEntries(profileId, config).then(
+				(entries) => {
+					if (JSON.stringify(entries) !== JSON.stringify(cached.entries)) {
+						logger.info(`Model list for profile "${profileId}" changed`);
+						this._onDidChangeLanguageModelChatInformation.fire();
+					}
+				},
+				(err) => logger.warn(`Background model refresh for profile "${profileId}" failed; serving cached list`, err)
+			);
+		}
+		return cached.entries;
+	}
+
+	/**
+	 * Fetch a profile's models from `/model/info` and cache them. `interactive` lets an OAuth profile
+	 * without a session start signing in.
+	 */
+	private fetchModelEntries(
+		profileId: string,
+		config: LiteLLMConfig,
+		interactive = false
+	): Promise<LiteLLMModelEntry[]> {
+		const key = `${profileId}\n${config.url}`;
+		let pending = this._pendingModelFetches.get(key);
+		if (!pending) {
+			pending = (async () => {
+				const authorized = await this._auth.authorize(profileId, config, interactive);
+				const { data } = await new LiteLLMClient(authorized, this.userAgent).getModelInfo();
+				const entries = data ?? [];
+				await this.modelCache?.set(profileId, config.url, entries);
+				return entries;
+			})().finally(() => this._pendingModelFetches.delete(key));
+			this._pendingModelFetches.set(key, pending);
+		}
+		return pending;
+	}
+
 	async provideLanguageModelChatResponse(
 		model: LanguageModelChatInformation,
 		messages: readonly LanguageModelChatRequestMessage[],
@@ -116,72 +277,102 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 		progress: Progress<LanguageModelResponsePart>,
 		token: CancellationToken
 	): Promise<void> {
-		this.resetStreamingState();
-
-		const trackingProgress: Progress<LanguageModelResponsePart> = {
-			report: (part) => {
-				if (part instanceof vscode.LanguageModelTextPart) {
-					this._partialAssistantText += part.value;
-				}
-				progress.report(part);
-			},
-		};
+		const startedAt = Date.now();
 
 		try {
-			const config = await this._configManager.getConfig();
+			const { config, profileId, modelName, modelInfo } = await this.resolveModel(model, this.traceId(messages));
 			if (!config.url) {
 				throw new Error("LiteLLM configuration not found.");
 			}
 
-			const modelInfo = this._modelInfoCache.get(model.id);
+			let client = new LiteLLMClient(await this._auth.authorize(profileId, config, true), this.userAgent);
+			const responseFormat = parseResponseFormat(options.modelOptions?.response_format);
+			const nativeFormat = responseFormat !== undefined && supportsResponseFormat(responseFormat, modelInfo);
+			// Without native support the JSON is requested in the prompt and checked before it is reported
+			const structuredOutput =
+				responseFormat && !nativeFormat ? new StructuredOutputBuffer(progress, responseFormat) : undefined;
+			const session = new StreamingSession(structuredOutput ?? progress, progress);
 			const toolConfig = convertTools(options);
-			const messagesToUse = trimMessagesToFitBudget(messages, toolConfig.tools, model, modelInfo);
-			const openaiMessages = convertMessages(messagesToUse);
-			validateRequest(messagesToUse);
+			// Images are fitted first so token counts and trimming see what is actually sent
+			const preparedMessages = prepareImages(
+				messages,
+				getImageLimits(modelName, modelInfo),
+				this._configManager.getMaxImageCount()
+			);
+			const messageTokens =
+				this._configManager.getTokenCountingMode() === "proxy"
+					? await this.countMessagesWithProxy(client, modelName, modelInfo, preparedMessages, token)
+					: undefined;
+			const { messages: messagesToUse, dropped } = await this.fitToContext(
+				client,
+				model,
+				modelName,
+				modelInfo,
+				preparedMessages,
+				toolConfig.tools,
+				messageTokens,
+				token
+			);
+			const conversionOptions = {
+				pdfInput: modelInfo?.supports_pdf_input === true,
+				audioInput: modelInfo?.supports_audio_input === true,
+			};
+			const openaiMessages = convertMessages(messagesToUse, conversionOptions);
+			validateRequest(messagesToUse, conversionOptions);
+			if (responseFormat && !nativeFormat) {
+				addFormatInstructions(openaiMessages, responseFormat);
+			}
 
+			const generation = resolveGenerationSettings(
+				modelName,
+				this._configManager.getModelDefaults(),
+				options.modelOptions as Record<string, unknown> | undefined
+			);
 			const requestBody: OpenAIChatCompletionRequest = {
-				model: model.id,
+				model: modelName,
 				messages: openaiMessages,
 				stream: true,
-				max_tokens:
-					typeof options.modelOptions?.max_tokens === "number"
-						? Math.min(options.modelOptions.max_tokens, model.maxOutputTokens)
-						: model.maxOutputTokens,
+				max_tokens: Math.min(generation.max_tokens ?? model.maxOutputTokens, model.maxOutputTokens),
 			};
-
-			if (this.isParameterSupported("temperature", modelInfo, model.id)) {
-				requestBody.temperature = (options.modelOptions?.temperature as number) ?? 0.7;
+			if (generation.temperature !== undefined && this.isParameterSupported("temperature", modelInfo, modelName)) {
+				requestBody.temperature = generation.temperature;
 			}
-
-			// Add frequency_penalty and presence_penalty to help prevent repetitive loops if supported
-			// We only apply these as defaults if Copilot (options.modelOptions) hasn't already provided them.
-			if (this.isParameterSupported("frequency_penalty", modelInfo, model.id)) {
-				requestBody.frequency_penalty = (options.modelOptions?.frequency_penalty as number) ?? 0.2;
+			if (generation.top_p !== undefined && this.isParameterSupported("top_p", modelInfo, modelName)) {
+				requestBody.top_p = generation.top_p;
 			}
-			if (this.isParameterSupported("presence_penalty", modelInfo, model.id)) {
-				requestBody.presence_penalty = (options.modelOptions?.presence_penalty as number) ?? 0.1;
+			if (
+				generation.frequency_penalty !== undefined &&
+				this.isParameterSupported("frequency_penalty", modelInfo, modelName)
+			) {
+				requestBody.frequency_penalty = generation.frequency_penalty;
+			}
+			if (
+				generation.presence_penalty !== undefined &&
+				this.isParameterSupported("presence_penalty", modelInfo, modelName)
+			) {
+				requestBody.presence_penalty = generation.presence_penalty;
+			}
+			if (generation.stop !== undefined && this.isParameterSupported("stop", modelInfo, modelName)) {
+				requestBody.stop = generation.stop;
+			}
+			if (generation.extra_body) {
+				requestBody.extra_body = generation.extra_body;
+			}
+			if (config.metadata) {
+				// Metadata from the model's extra_body is more specific than the profile's
+				const modelMetadata = requestBody.extra_body?.metadata;
+				requestBody.extra_body = {
+					...requestBody.extra_body,
+					metadata: {
+						...config.metadata,
+						...(modelMetadata && typeof modelMetadata === "object" ? modelMetadata : {}),
+					},
+				};
 			}
 
-			if (options.modelOptions) {
-				const mo = options.modelOptions as Record<string, unknown>;
-				if (this.isParameterSupported("stop", modelInfo, model.id) && mo.stop) {
-					requestBody.stop = mo.stop as string | string[];
-				}
-				if (this.isParameterSupported("top_p", modelInfo, model.id) && typeof mo.top_p === "number") {
-					requestBody.top_p = mo.top_p;
-				}
-				if (
-					this.isParameterSupported("frequency_penalty", modelInfo, model.id) &&
-					typeof mo.frequency_penalty === "number"
-				) {
-					requestBody.frequency_penalty = mo.frequency_penalty;
-				}
-				if (
-					this.isParameterSupported("presence_penalty", modelInfo, model.id) &&
-					typeof mo.presence_penalty === "number"
-				) {
-					requestBody.presence_penalty = mo.presence_penalty;
-				}
+			this.applyReasoningOptions(requestBody, modelInfo, options.modelOptions as Record<string, unknown> | undefined);
+			if (nativeFormat) {
+				requestBody.response_format = responseFormat;
 			}
 
 			if (toolConfig.tools) {
@@ -190,60 +381,116 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 			if (toolConfig.tool_choice) {
 				requestBody.tool_choice = toolConfig.tool_choice;
 			}
+			if (client.getEndpoint(modelInfo?.mode) === "/chat/completions") {
+				this.applyPromptCaching(requestBody, modelName, modelInfo);
+			}
 
 			// Final safety: strip any unsupported parameters that slipped through earlier checks
 			this.stripUnsupportedParametersFromRequest(
 				requestBody as unknown as Record<string, unknown>,
 				modelInfo,
-				model.id
+				modelName
 			);
 
-			const client = new LiteLLMClient(config, this.userAgent);
-			let stream: ReadableStream<Uint8Array>;
-			try {
-				stream = await client.chat(requestBody, modelInfo?.mode, token);
-			} catch (err: unknown) {
-				if (token.isCancellationRequested) {
-					throw new Error("Operation cancelled by user");
-				}
-				// If we get an unsupported parameter error, try one more time without those parameters
-				if (err instanceof Error && err.message.includes("LiteLLM API error")) {
-					const errorText = err.message.split("\n").slice(1).join("\n");
-					const parsedMessage = this.parseApiError(400, errorText);
+			let responseCost: number | undefined;
+			let continuation: ReturnType<ResponsesConversationStore["prepare"]> | undefined;
+			let replayFullHistory = !this._configManager.getStatefulResponses();
+			const chatOptions = {
+				onHeaders: (headers: Headers) => {
+					const cost = Number.parseFloat(headers.get("x-litellm-response-cost") ?? "");
+					responseCost = Number.isFinite(cost) ? cost : undefined;
+				},
+				transformResponsesBody: (body: LiteLLMResponsesRequest) => {
+					continuation = this._responsesConversations.prepare(body);
+					return replayFullHistory ? body : continuation.body;
+				},
+			};
+			// A rejected token is refreshed once. A proxy that no longer knows the previous response gets
+			// the whole conversation instead.
+			let reauthorized = false;
+			const send = async (): Promise<ReadableStream<Uint8Array>> => {
+				try {
+					return await client.chat(requestBody, modelInfo?.mode, token, chatOptions);
+				} catch (err: unknown) {
 					if (
-						parsedMessage.toLowerCase().includes("unsupported parameter") ||
-						parsedMessage.toLowerCase().includes("not supported")
+						!reauthorized &&
+						!token.isCancellationRequested &&
+						/LiteLLM API error: 401\b/.test(String(err)) &&
+						(await this._auth.refresh(profileId))
 					) {
-						console.warn(
-							`[LiteLLM Model Provider] Retrying request without optional parameters due to: ${parsedMessage}`
-						);
-						// Strip common optional parameters that might cause issues
-						delete requestBody.temperature;
-						delete requestBody.top_p;
-						delete requestBody.frequency_penalty;
-						delete requestBody.presence_penalty;
-						delete requestBody.stop;
-
-						if (token.isCancellationRequested) {
-							throw new Error("Operation cancelled by user");
-						}
-						stream = await client.chat(requestBody, modelInfo?.mode, token);
-					} else {
+						reauthorized = true;
+						logger.warn(`Proxy rejected the token of profile "${profileId}"; retrying with a new one`);
+						client = new LiteLLMClient(await this._auth.authorize(profileId, config, true), this.userAgent);
+						return send();
+					}
+					const rejectedId = replayFullHistory ? undefined : continuation?.previousResponseId;
+					if (!rejectedId || token.isCancellationRequested || !/LiteLLM API error: 40[04]\b/.test(String(err))) {
 						throw err;
 					}
-				} else {
-					throw err;
+					logger.warn(`Proxy rejected previous_response_id ${rejectedId}; replaying the full conversation`);
+					this._responsesConversations.forget(rejectedId);
+					replayFullHistory = true;
+					return client.chat(requestBody, modelInfo?.mode, token, chatOptions);
+				}
+			};
+
+			logger.info(
+				`Chat request: model=${modelName} endpoint=${client.getEndpoint(modelInfo?.mode)} messages=${openaiMessages.length} ` +
+					`trimmed=${dropped} tools=${requestBody.tools?.length ?? 0}`
+			);
+
+			// A rejected parameter is left out and the request sent again, a few times at most
+			let stream: ReadableStream<Uint8Array> | undefined;
+			for (let attempt = 1; !stream; attempt++) {
+				try {
+					stream = await send();
+				} catch (err: unknown) {
+					if (token.isCancellationRequested) {
+						throw new Error("Operation cancelled by user");
+					}
+					const retryWithout =
+						attempt <= MAX_PARAMETER_RETRIES ? await this.parametersToRetryWithout(err, requestBody, modelName) : [];
+					if (retryWithout.length === 0) {
+						throw err;
+					}
+					const body = requestBody as unknown as Record<string, unknown>;
+					for (const param of retryWithout) {
+						delete body[param];
+					}
+					logger.warn(
+						`Retry ${attempt}/${MAX_PARAMETER_RETRIES} for ${modelName} without ${retryWithout.join(", ")}: ` +
+							this.parseApiError(400, String(err).split("\n").slice(1).join("\n"))
+					);
 				}
 			}
 
-			await this.processStreamingResponse(stream, trackingProgress, token);
+			await session.consume(stream, token);
+			structuredOutput?.flush();
+			if (continuation && session.responseId) {
+				continuation.record(session.responseId);
+			}
+			const usage = await this.recordUsage(model.id, session, responseCost);
+			const latencyMs = Date.now() - startedAt;
+			logger.info(
+				`Chat response from ${modelName} in ${latencyMs} ms` +
+					(usage
+						? ` (${usage.promptTokens} prompt / ${usage.completionTokens} completion tokens` +
+							(usage.cachedTokens || usage.cacheWriteTokens
+								? `, cache read ${usage.cachedTokens} / write ${usage.cacheWriteTokens}`
+								: "") +
+							")"
+						: "")
+			);
+			this._onDidCompleteRequest.fire({ modelId: model.id, latencyMs, usage });
 		} catch (err: unknown) {
 			let errorMessage = err instanceof Error ? err.message : String(err);
+			let errorStatus: number | undefined;
 
 			// If it's a LiteLLM API error, try to parse it for more detail
 			if (errorMessage.includes("LiteLLM API error")) {
 				const statusMatch = errorMessage.match(/error: (\d+)/);
 				const statusCode = statusMatch ? parseInt(statusMatch[1], 10) : 400;
+				errorStatus = statusMatch ? statusCode : undefined;
 				const errorParts = errorMessage.split("\n");
 				const errorText = errorParts.length > 1 ? errorParts.slice(1).join("\n") : "";
 
@@ -259,7 +506,15 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 				}
 			}
 
-			console.error("[LiteLLM Model Provider] Chat request failed", err);
+			logger.error(`Chat request to ${model.id} failed`, err);
+			if (!token.isCancellationRequested) {
+				this._onDidCompleteRequest.fire({
+					modelId: model.id,
+					latencyMs: Date.now() - startedAt,
+					errorStatus,
+					error: errorMessage,
+				});
+			}
 			throw new Error(errorMessage);
 		}
 	}
@@ -267,432 +522,224 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 	async provideTokenCount(
 		model: LanguageModelChatInformation,
 		text: string | LanguageModelChatRequestMessage,
-		_token: CancellationToken
+		token: CancellationToken
 	): Promise<number> {
-		if (typeof text === "string") {
-			return Math.ceil(text.length / 4);
-		} else {
-			let totalTokens = 0;
-			for (const part of text.content) {
-				if (part instanceof vscode.LanguageModelTextPart) {
-					totalTokens += Math.ceil(part.value.length / 4);
-				}
-			}
-			return totalTokens;
-		}
-	}
+		const { config, profileId, modelName, modelInfo } = await this.resolveModel(model);
+		const tokenizer = getTokenizer(modelName, modelInfo);
+		const localCount = () =>
+			typeof text === "string" ? tokenizer.countText(text) : estimateSingleMessageTokens(text, tokenizer);
 
-	private resetStreamingState() {
-		this._toolCallBuffers.clear();
-		this._completedToolCallIndices.clear();
-		this._hasEmittedAssistantText = false;
-		this._emittedBeginToolCallsHint = false;
-		this._textToolParserBuffer = "";
-		this._textToolActive = undefined;
-		this._emittedTextToolCallKeys.clear();
-		this._emittedTextToolCallIds.clear();
-		this._partialAssistantText = "";
-		this._lastEmittedText = "";
-		this._repeatCount = 0;
-	}
-
-	private isParameterSupported(param: string, modelInfo: LiteLLMModelInfo | undefined, modelId?: string): boolean {
-		if (modelId) {
-			if (KNOWN_PARAMETER_LIMITATIONS[modelId]?.has(param)) {
-				return false;
-			}
-			for (const [knownModel, limitations] of Object.entries(KNOWN_PARAMETER_LIMITATIONS)) {
-				if (modelId.includes(knownModel) && limitations.has(param)) {
-					return false;
-				}
-			}
-		}
-
-		if (!modelInfo) {
-			return true;
-		}
-
-		if (modelId && this._parameterProbeCache.has(modelId)) {
-			if (this._parameterProbeCache.get(modelId)?.has(param)) {
-				return false;
-			}
+		if (!config.url || this._configManager.getTokenCountingMode() !== "proxy") {
+			return localCount();
 		}
-
-		if (modelInfo?.supported_openai_params) {
-			return modelInfo.supported_openai_params.includes(param);
+		const client = new LiteLLMClient(await this._auth.authorize(profileId, config), this.userAgent);
+		if (typeof text === "string") {
+			return this._proxyTokenCounter.countText(client, modelName, text, localCount, token);
 		}
-
-		return true;
+		return this._proxyTokenCounter.countMessages(client, modelName, convertMessages([text]), localCount, token);
 	}
 
-	private async processStreamingResponse(
-		responseBody: ReadableStream<Uint8Array>,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		token: vscode.CancellationToken
-	): Promise<void> {
-		const reader = responseBody.getReader();
-		const decoder = new TextDecoder();
-		let buffer = "";
-
-		token.onCancellationRequested(() => {
-			reader.cancel("User cancelled");
-		});
-
+	/**
+	 * Store the usage reported by the stream and return it. Cost from the stream's usage chunk wins over
+	 * the `x-litellm-response-cost` header, which some proxy versions send before the cost is known.
+	 */
+	private async recordUsage(
+		modelId: string,
+		session: StreamingSession,
+		headerCost: number | undefined
+	): Promise<ResponseUsage | undefined> {
+		if (!session.usage && headerCost === undefined) {
+			return undefined;
+		}
+		const usage: ResponseUsage = {
+			promptTokens: session.usage?.promptTokens ?? 0,
+			completionTokens: session.usage?.completionTokens ?? 0,
+			cachedTokens: session.usage?.cachedTokens ?? 0,
+			cacheWriteTokens: session.usage?.cacheWriteTokens ?? 0,
+			cost: session.usage?.cost ?? headerCost,
+		};
 		try {
-			while (!token.isCancellationRequested) {
-				const { done, value } = await reader.read();
-				if (done) {
-					break;
-				}
-				// ...existing code...
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split("\n");
-				buffer = lines.pop() || "";
-
-				for (const line of lines) {
-					if (!line.startsWith("data: ")) {
-						continue;
-					}
-					const data = line.slice(6);
-					if (data === "[DONE]") {
-						await this.flushToolCallBuffers(progress, false);
-						await this.flushActiveTextToolCall(progress);
-						continue;
-					}
-
-					try {
-						const parsed = JSON.parse(data);
-						await this.processDelta(parsed, progress);
-					} catch {
-						// ignore
-					}
-				}
-			}
-		} finally {
-			reader.releaseLock();
+			await this.usageTracker?.record(modelId, usage);
+		} catch (err) {
+			logger.warn("Failed to record usage", err);
 		}
+		return usage;
 	}
 
-	private async processDelta(
-		delta: Record<string, unknown>,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>
-	): Promise<boolean> {
-		let emitted = false;
-		const eventType = delta.type as string | undefined;
-
-		if (eventType === "response.output_text.delta") {
-			const textDelta = (delta.delta || delta.text || delta.chunk) as string | undefined;
-			if (textDelta) {
-				if (textDelta === this._lastEmittedText) {
-					this._repeatCount++;
-				} else {
-					this._lastEmittedText = textDelta;
-					this._repeatCount = 0;
-				}
+	/**
+	 * Resolve the profile and its configuration, proxy model name and cached model info for a picker model.
+	 * `traceId` identifies the chat in the profile's request headers and metadata.
+	 */
+	private async resolveModel(
+		model: LanguageModelChatInformation,
+		traceId = ""
+	): Promise<{
+		config: LiteLLMConfig;
+		profileId: string;
+		modelName: string;
+		modelInfo: LiteLLMModelInfo | undefined;
+	}> {
+		const route = this._modelRoutes.get(model.id);
+		const modelName = route?.modelName ?? model.id;
+		const profileId = route?.profileId ?? (await this._configManager.getActiveProfile()).id;
+		const config = await this._configManager.getProfileConfig(profileId, { model: modelName, traceId });
+		return { config, profileId, modelName, modelInfo: this._modelInfoCache.get(model.id) };
+	}
 
-				if (this._repeatCount < 20) {
-					progress.report(new vscode.LanguageModelTextPart(textDelta));
-					return true;
-				}
-				return false;
-			}
-			return false;
-		}
+	/**
+	 * Id shared by the requests of one chat in this window, for the `${traceId}` request variable: a hash
+	 * of the VS Code session id and the first user message.
+	 */
+	private traceId(messages: readonly LanguageModelChatRequestMessage[]): string {
+		const first = messages.find((m) => m.role === vscode.LanguageModelChatMessageRole.User);
+		const text = (first?.content ?? [])
+			.map((part) => (part instanceof vscode.LanguageModelTextPart ? part.value : ""))
+			.join("");
+		return createHash("sha256").update(vscode.env.sessionId).update(text).digest("hex").slice(0, 32);
+	}
 
-		if (eventType === "response.output_item.done") {
-			const item = delta.item as Record<string, unknown> | undefined;
-			if (item?.type === "function_call") {
-				const callId = item.call_id as string | undefined;
-				const argumentsStr = item.arguments as string | undefined;
-				const name = (item.name as string | undefined) || "unknown_tool";
-
-				if (callId && argumentsStr) {
-					const parsed = tryParseJSONObject(argumentsStr);
-					if (parsed.ok) {
-						progress.report(new vscode.LanguageModelToolCallPart(callId, name, parsed.value));
-						return true;
-					}
-				}
-			}
-			return false;
+	/**
+	 * Trim the conversation to the context window. With summarization enabled, room is kept for a
+	 * summary of the dropped turns, which is added as a system note; if summarizing fails, the
+	 * conversation is only trimmed.
+	 */
+	private async fitToContext(
+		client: LiteLLMClient,
+		model: LanguageModelChatInformation,
+		modelName: string,
+		modelInfo: LiteLLMModelInfo | undefined,
+		messages: readonly LanguageModelChatRequestMessage[],
+		tools: OpenAIFunctionToolDef[] | undefined,
+		messageTokens: ReadonlyMap<LanguageModelChatRequestMessage, number> | undefined,
+		token: CancellationToken
+	): Promise<{ messages: readonly LanguageModelChatRequestMessage[]; dropped: number }> {
+		const trimmed = splitMessagesToFitBudget(messages, tools, model, modelInfo, messageTokens);
+		const summarization = this._configManager.getSummarizationSettings();
+		if (!summarization.enabled || trimmed.dropped.length === 0) {
+			return { messages: trimmed.messages, dropped: trimmed.dropped.length };
 		}
 
-		let choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
-		if (!choice) {
-			const output = (delta.output as Record<string, unknown>[] | undefined)?.[0];
-			if (output) {
-				const content = output.content as Record<string, unknown>[] | undefined;
-				const textContent = content?.find((c) => c.type === "output_text");
-				if (textContent) {
-					choice = {
-						delta: { content: textContent.text },
-						finish_reason: output.finish_reason,
-					};
-				}
+		const reserved = Math.min(SUMMARY_MAX_TOKENS, Math.floor(model.maxInputTokens * 0.1));
+		const withRoom = splitMessagesToFitBudget(messages, tools, model, modelInfo, messageTokens, reserved);
+		const summaryModel = summarization.model ?? modelName;
+		try {
+			const summary = await this._summarizer.summarize(client, summaryModel, withRoom.dropped, token);
+			if (summary) {
+				logger.debug(`Summarized ${withRoom.dropped.length} dropped message(s) with ${summaryModel}`);
+				return {
+					messages: ConversationSummarizer.withSummary(withRoom.messages, summary),
+					dropped: withRoom.dropped.length,
+				};
 			}
-		}
-
-		if (!choice && !eventType) {
-			const content = (delta.content || delta.text) as string | undefined;
-			if (content) {
-				choice = { delta: { content }, finish_reason: undefined };
+		} catch (err) {
+			if (token.isCancellationRequested) {
+				throw err;
 			}
+			logger.warn(`Summarizing the conversation with ${summaryModel} failed; sending it trimmed`, err);
 		}
+		return { messages: trimmed.messages, dropped: trimmed.dropped.length };
+	}
 
-		if (!choice) {
-			return false;
-		}
+	/**
+	 * Count every message with the proxy's token counter so trimming works with exact numbers.
+	 */
+	private async countMessagesWithProxy(
+		client: LiteLLMClient,
+		modelName: string,
+		modelInfo: LiteLLMModelInfo | undefined,
+		messages: readonly LanguageModelChatRequestMessage[],
+		token: CancellationToken
+	): Promise<Map<LanguageModelChatRequestMessage, number>> {
+		const tokenizer = getTokenizer(modelName, modelInfo);
+		const counts = await this._proxyTokenCounter.countAll(messages, (msg) =>
+			this._proxyTokenCounter.countMessages(
+				client,
+				modelName,
+				convertMessages([msg]),
+				() => estimateSingleMessageTokens(msg, tokenizer),
+				token
+			)
+		);
+		return new Map(messages.map((msg, i) => [msg, counts[i]]));
+	}
 
-		const deltaObj = choice.delta as Record<string, unknown>;
-		if (deltaObj?.content) {
-			const content = String(deltaObj.content);
-			const res = this.processTextContent(content, progress);
-			if (res.emittedText) {
-				this._hasEmittedAssistantText = true;
-			}
-			if (res.emittedAny) {
-				emitted = true;
-			}
+	/**
+	 * Mark the system prompt, the tool definitions and the last stable history message as prompt cache
+	 * breakpoints for Claude models with `supports_prompt_caching`. The newest message changes every
+	 * turn, so the breakpoint goes on the message before it.
+	 */
+	private applyPromptCaching(
+		requestBody: OpenAIChatCompletionRequest,
+		modelName: string,
+		modelInfo: LiteLLMModelInfo | undefined
+	): void {
+		if (modelInfo?.supports_prompt_caching !== true || !isAnthropicModel(modelName, modelInfo)) {
+			return;
 		}
-
-		if (deltaObj?.tool_calls) {
-			const toolCalls = deltaObj.tool_calls as Record<string, unknown>[];
-			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
-				progress.report(new vscode.LanguageModelTextPart(" "));
-				this._emittedBeginToolCallsHint = true;
-			}
-
-			for (const tc of toolCalls) {
-				const idx = (tc["index"] as number) ?? 0;
-				if (this._completedToolCallIndices.has(idx)) {
-					continue;
-				}
-				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
-				if (tc["id"]) {
-					buf.id = tc["id"] as string;
-				}
-				const func = tc["function"] as Record<string, unknown> | undefined;
-				if (func?.["name"]) {
-					buf.name = func["name"] as string;
-				}
-				if (func?.["arguments"]) {
-					buf.args += func["arguments"] as string;
-				}
-				this._toolCallBuffers.set(idx, buf);
-				await this.tryEmitBufferedToolCall(idx, progress);
+		const messages = requestBody.messages;
+		const mark = (message: OpenAIChatMessage) => {
+			if (typeof message.content === "string" && message.content) {
+				message.content = [{ type: "text", text: message.content, cache_control: { type: "ephemeral" } }];
+			} else if (Array.isArray(message.content) && message.content.length > 0) {
+				message.content[message.content.length - 1].cache_control = { type: "ephemeral" };
 			}
-		}
+		};
 
-		const finish = choice.finish_reason;
-		if (finish === "tool_calls" || finish === "stop") {
-			await this.flushToolCallBuffers(progress, true);
+		const lastSystem = messages.map((m) => m.role).lastIndexOf("system");
+		if (lastSystem >= 0) {
+			mark(messages[lastSystem]);
 		}
-		return emitted;
-	}
-
-	private processTextContent(
-		input: string,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>
-	): { emittedText: boolean; emittedAny: boolean } {
-		const BEGIN = "<|tool_call_begin|>";
-		const ARG_BEGIN = "<|tool_call_argument_begin|>";
-		const END = "<|tool_call_end|>";
-
-		let data = this._textToolParserBuffer + input;
-		let emittedText = false;
-		let emittedAny = false;
-		let visibleOut = "";
-
-		while (data.length > 0) {
-			if (!this._textToolActive) {
-				const b = data.indexOf(BEGIN);
-				if (b === -1) {
-					const longestPartialPrefix = ((): number => {
-						for (let k = Math.min(BEGIN.length - 1, data.length - 1); k > 0; k--) {
-							if (data.endsWith(BEGIN.slice(0, k))) {
-								return k;
-							}
-						}
-						return 0;
-					})();
-					if (longestPartialPrefix > 0) {
-						const visible = data.slice(0, data.length - longestPartialPrefix);
-						if (visible) {
-							visibleOut += this.stripControlTokens(visible);
-						}
-						this._textToolParserBuffer = data.slice(data.length - longestPartialPrefix);
-						data = "";
-						break;
-					} else {
-						visibleOut += this.stripControlTokens(data);
-						data = "";
-						break;
-					}
-				}
-				const pre = data.slice(0, b);
-				if (pre) {
-					visibleOut += this.stripControlTokens(pre);
-				}
-				data = data.slice(b + BEGIN.length);
-
-				const a = data.indexOf(ARG_BEGIN);
-				const e = data.indexOf(END);
-				let delimIdx = -1;
-				let delimKind: "arg" | "end" | undefined = undefined;
-				if (a !== -1 && (e === -1 || a < e)) {
-					delimIdx = a;
-					delimKind = "arg";
-				} else if (e !== -1) {
-					delimIdx = e;
-					delimKind = "end";
-				} else {
-					this._textToolParserBuffer = BEGIN + data;
-					data = "";
-					break;
-				}
-
-				const header = data.slice(0, delimIdx).trim();
-				const m = header.match(/^([A-Za-z0-9_\-.]+)(?::(\d+))?/);
-				const name = m?.[1] ?? undefined;
-				const index = m?.[2] ? Number(m?.[2]) : undefined;
-				this._textToolActive = { name, index, argBuffer: "", emitted: false };
-				if (delimKind === "arg") {
-					data = data.slice(delimIdx + ARG_BEGIN.length);
-				} else {
-					data = data.slice(delimIdx + END.length);
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, "{}");
-					if (did) {
-						this._textToolActive.emitted = true;
-						emittedAny = true;
-					}
-					this._textToolActive = undefined;
-				}
-				continue;
-			}
-
-			const e2 = data.indexOf(END);
-			if (e2 === -1) {
-				this._textToolActive.argBuffer += data;
-				if (!this._textToolActive.emitted) {
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
-					if (did) {
-						this._textToolActive.emitted = true;
-						emittedAny = true;
-					}
-				}
-				data = "";
+		for (let i = messages.length - 2; i > lastSystem; i--) {
+			const message = messages[i];
+			if ((message.role === "user" || message.role === "assistant") && message.content) {
+				mark(message);
 				break;
-			} else {
-				this._textToolActive.argBuffer += data.slice(0, e2);
-				data = data.slice(e2 + END.length);
-				if (!this._textToolActive.emitted) {
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
-					if (did) {
-						emittedAny = true;
-					}
-				}
-				this._textToolActive = undefined;
-				continue;
 			}
 		}
-
-		if (visibleOut) {
-			if (visibleOut === this._lastEmittedText) {
-				this._repeatCount++;
-			} else {
-				this._lastEmittedText = visibleOut;
-				this._repeatCount = 0;
-			}
-
-			if (this._repeatCount < 20) {
-				progress.report(new vscode.LanguageModelTextPart(visibleOut));
-				emittedText = true;
-				emittedAny = true;
-			}
+		const lastTool = requestBody.tools?.[requestBody.tools.length - 1];
+		if (lastTool) {
+			lastTool.cache_control = { type: "ephemeral" };
 		}
-
-		this._textToolParserBuffer = data;
-		return { emittedText, emittedAny };
 	}
 
-	private emitTextToolCallIfValid(
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
-		argText: string
-	): boolean {
-		const name = call.name ?? "unknown_tool";
-		const parsed = tryParseJSONObject(argText);
-		if (!parsed.ok) {
-			return false;
-		}
-		const canonical = JSON.stringify(parsed.value);
-		const key = `${name}:${canonical}`;
-		if (typeof call.index === "number") {
-			const idKey = `${name}:${call.index}`;
-			if (this._emittedTextToolCallIds.has(idKey)) {
-				return false;
+	/**
+	 * Add `reasoning_effort` and the extended thinking budget for models that advertise them in
+	 * `supported_openai_params`. A `reasoning_effort` in the request's model options wins over the setting.
+	 */
+	private applyReasoningOptions(
+		requestBody: OpenAIChatCompletionRequest,
+		modelInfo: LiteLLMModelInfo | undefined,
+		modelOptions: Record<string, unknown> | undefined
+	): void {
+		const supported = modelInfo?.supported_openai_params ?? [];
+
+		if (supported.includes("reasoning_effort")) {
+			const requested = modelOptions?.reasoning_effort;
+			const effort =
+				requested === "low" || requested === "medium" || requested === "high"
+					? requested
+					: this._configManager.getReasoningEffort();
+			if (effort) {
+				requestBody.reasoning_effort = effort;
 			}
-			this._emittedTextToolCallIds.add(idKey);
-		} else if (this._emittedTextToolCallKeys.has(key)) {
-			return false;
 		}
-		this._emittedTextToolCallKeys.add(key);
-		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
-		progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-		return true;
-	}
 
-	private async flushActiveTextToolCall(progress: vscode.Progress<vscode.LanguageModelResponsePart>): Promise<void> {
-		if (!this._textToolActive) {
-			return;
+		const budget = this._configManager.getThinkingBudget();
+		if (supported.includes("thinking") && budget > 0 && budget < (requestBody.max_tokens ?? 0)) {
+			requestBody.thinking = { type: "enabled", budget_tokens: budget };
+			// Extended thinking rejects sampling overrides
+			delete requestBody.temperature;
+			delete requestBody.top_p;
 		}
-		this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
-		this._textToolActive = undefined;
 	}
 
-	private async tryEmitBufferedToolCall(
-		index: number,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>
-	): Promise<void> {
-		const buf = this._toolCallBuffers.get(index);
-		if (!buf || !buf.name) {
-			return;
-		}
-		const canParse = tryParseJSONObject(buf.args);
-		if (!canParse.ok) {
-			return;
-		}
-		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-		progress.report(new vscode.LanguageModelToolCallPart(id, buf.name, canParse.value));
-		this._toolCallBuffers.delete(index);
-		this._completedToolCallIndices.add(index);
-	}
-
-	private async flushToolCallBuffers(
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		throwOnInvalid: boolean
-	): Promise<void> {
-		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
-			const parsed = tryParseJSONObject(buf.args);
-			if (!parsed.ok) {
-				if (throwOnInvalid) {
-					throw new Error("Invalid JSON for tool call");
-				}
-				continue;
-			}
-			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-			const name = buf.name ?? "unknown_tool";
-			progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-			this._toolCallBuffers.delete(idx);
-			this._completedToolCallIndices.add(idx);
-		}
-	}
-
-	private stripControlTokens(text: string): string {
-		return text
-			.replace(/<\|[a-zA-Z0-9_-]+_section_(?:begin|end)\|>/g, "")
-			.replace(/<\|tool_call_(?:argument_)?(?:begin|end)\|>/g, "");
+	private isParameterSupported(param: string, modelInfo: LiteLLMModelInfo | undefined, modelId?: string): boolean {
+		return this.parameterRegistry.isSupported(
+			param,
+			modelId ?? "",
+			modelInfo,
+			this._configManager.getParameterOverrides()
+		);
 	}
 
 	/**
@@ -737,6 +784,33 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 		return `API request failed with status ${statusCode}`;
 	}
 
+	/**
+	 * Parameters to leave out after the proxy rejected a request: the ones its error names. They are
+	 * remembered for the model, unless they were only rejected in combination with another parameter.
+	 * @returns An empty list when the error is not about parameters or names none that were sent.
+	 */
+	private async parametersToRetryWithout(
+		err: unknown,
+		requestBody: OpenAIChatCompletionRequest,
+		modelName: string
+	): Promise<string[]> {
+		if (!(err instanceof Error) || !err.message.includes("LiteLLM API error")) {
+			return [];
+		}
+		const errorText = err.message.split("\n").slice(1).join("\n");
+		const sent = OPTIONAL_PARAMETERS.filter((p) => p in requestBody);
+		const rejected = parseRejectedParameters(errorText, sent);
+		if (!rejected) {
+			return [];
+		}
+		const conflicting = conflictingParameters(errorText);
+		await this.parameterRegistry.learn(
+			modelName,
+			rejected.filter((p) => !conflicting.includes(p))
+		);
+		return rejected;
+	}
+
 	/**
 	 * Remove unsupported parameters from the request body as a final safety net.
 	 */
@@ -745,8 +819,7 @@ export class LiteLLMChatModelProvider implements LanguageModelChatProvider {
 		modelInfo: LiteLLMModelInfo | undefined,
 		modelId?: string
 	): void {
-		const paramsToCheck = ["temperature", "stop", "frequency_penalty", "presence_penalty", "top_p"];
-		for (const p of paramsToCheck) {
+		for (const p of OPTIONAL_PARAMETERS) {
 			if (!this.isParameterSupported(p, modelInfo, modelId) && p in requestBody) {
 				delete requestBody[p];
 			}
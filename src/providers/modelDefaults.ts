@@ -0,0 +1,42 @@
+import type { ModelDefaults } from "../types";
+import { globToRegExp } from "./modelFilter";
+
+/** Used when neither the caller nor the settings choose; the penalties help prevent repetitive loops. */
+const BUILT_IN_DEFAULTS: ModelDefaults = { temperature: 0.7, frequency_penalty: 0.2, presence_penalty: 0.1 };
+
+const NUMERIC_OPTIONS = ["temperature", "top_p", "frequency_penalty", "presence_penalty", "max_tokens"] as const;
+
+/**
+ * Generation settings for a request, from lowest to highest precedence: the built-in defaults, the
+ * `litellm-connector.modelDefaults` entries whose glob matches the model (later entries win), and the
+ * caller's `modelOptions`. `extra_body` fields are merged the same way. Whether the model accepts a
+ * parameter is decided later.
+ */
+export function resolveGenerationSettings(
+	modelName: string,
+	settings: Record<string, ModelDefaults>,
+	modelOptions: Record<string, unknown> | undefined
+): ModelDefaults {
+	const resolved: ModelDefaults = { ...BUILT_IN_DEFAULTS };
+	for (const [glob, defaults] of Object.entries(settings)) {
+		if (globToRegExp(glob).test(modelName)) {
+			const { extra_body: extraBody, ...params } = defaults;
+			Object.assign(resolved, params);
+			if (extraBody) {
+				resolved.extra_body = { ...resolved.extra_body, ...extraBody };
+			}
+		}
+	}
+
+	for (const key of NUMERIC_OPTIONS) {
+		const value = modelOptions?.[key];
+		if (typeof value === "number") {
+			resolved[key] = value;
+		}
+	}
+	const stop = modelOptions?.stop;
+	if ((typeof stop === "string" && stop) || (Array.isArray(stop) && stop.length > 0)) {
+		resolved.stop = stop as string | string[];
+	}
+	return resolved;
+}
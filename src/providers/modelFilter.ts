@@ -0,0 +1,78 @@
+import type { LiteLLMModelEntry, ModelFilterSettings } from "../types";
+
+/**
+ * Convert a glob with `*` and `?` wildcards into a case-insensitive regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("")
+		.map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\/]/g, "\\$&")))
+		.join("");
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Apply the include/exclude, mode and tag filters to `/model/info` entries, then collapse
+ * load-balanced deployments that share a `model_name` into a single entry.
+ */
+export function filterModelEntries(entries: LiteLLMModelEntry[], settings: ModelFilterSettings): LiteLLMModelEntry[] {
+	const include = settings.include.map(globToRegExp);
+	const exclude = settings.exclude.map(globToRegExp);
+	const modes = new Set(settings.modes.map((m) => m.toLowerCase()));
+	const tags = new Set(settings.tags);
+
+	const kept = entries.filter((entry) => {
+		const name = entry.model_name;
+		if (include.length > 0 && !include.some((re) => re.test(name))) {
+			return false;
+		}
+		if (exclude.some((re) => re.test(name))) {
+			return false;
+		}
+		if (modes.size > 0 && !modes.has((entry.model_info?.mode ?? "chat").toLowerCase())) {
+			return false;
+		}
+		if (tags.size > 0 && !(entry.litellm_params?.tags ?? []).some((t) => tags.has(t))) {
+			return false;
+		}
+		return true;
+	});
+
+	return collapseDeployments(kept);
+}
+
+/**
+ * Merge entries with the same `model_name`. The merged entry is addressed by its model name so the
+ * proxy keeps load balancing, and advertises the smallest token limits of its deployments.
+ */
+function collapseDeployments(entries: LiteLLMModelEntry[]): LiteLLMModelEntry[] {
+	const groups = new Map<string, LiteLLMModelEntry[]>();
+	for (const entry of entries) {
+		const group = groups.get(entry.model_name);
+		if (group) {
+			group.push(entry);
+		} else {
+			groups.set(entry.model_name, [entry]);
+		}
+	}
+
+	return Array.from(groups.values()).map((group) => {
+		if (group.length === 1) {
+			return group[0];
+		}
+		const [first] = group;
+		const min = (values: (number | undefined)[]) => {
+			const defined = values.filter((v): v is number => typeof v === "number");
+			return defined.length > 0 ? Math.min(...defined) : undefined;
+		};
+		return {
+			...first,
+			model_info: {
+				...first.model_info,
+				key: first.model_name,
+				max_input_tokens: min(group.map((e) => e.model_info?.max_input_tokens)),
+				max_output_tokens: min(group.map((e) => e.model_info?.max_output_tokens)),
+			},
+		};
+	});
+}
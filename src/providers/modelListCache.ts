@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import type { LiteLLMModelEntry } from "../types";
+
+interface CachedModelList {
+	url: string;
+	fetchedAt: number;
+	entries: LiteLLMModelEntry[];
+}
+
+/**
+ * Last good `/model/info` result per profile, persisted in global state so the model picker has
+ * something to show while the proxy is slow or down.
+ */
+export class ModelListCache {
+	private static readonly STORAGE_KEY = "litellm-connector.modelCache";
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	/**
+	 * The cached model list for a profile, or undefined when none exists for the profile's current URL.
+	 */
+	get(profileId: string, url: string): { entries: LiteLLMModelEntry[]; fetchedAt: number } | undefined {
+		const cached = this.load()[profileId];
+		return cached && cached.url === url ? { entries: cached.entries, fetchedAt: cached.fetchedAt } : undefined;
+	}
+
+	async set(profileId: string, url: string, entries: LiteLLMModelEntry[], now: number = Date.now()): Promise<void> {
+		const all = { ...this.load(), [profileId]: { url, fetchedAt: now, entries } };
+		await this.state.update(ModelListCache.STORAGE_KEY, all);
+	}
+
+	/**
+	 * Drop cached lists for profiles that no longer exist.
+	 */
+	async prune(profileIds: readonly string[]): Promise<void> {
+		const all = this.load();
+		const kept = Object.fromEntries(Object.entries(all).filter(([id]) => profileIds.includes(id)));
+		if (Object.keys(kept).length !== Object.keys(all).length) {
+			await this.state.update(ModelListCache.STORAGE_KEY, kept);
+		}
+	}
+
+	private load(): Record<string, CachedModelList> {
+		return this.state.get<Record<string, CachedModelList>>(ModelListCache.STORAGE_KEY) ?? {};
+	}
+}
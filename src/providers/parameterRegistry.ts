@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import type { LiteLLMModelInfo, ParameterOverrides } from "../types";
+import { logger } from "../logger";
+import { globToRegExp } from "./modelFilter";
+import * as bundledRules from "./parameterRules.json";
+
+/**
+ * Parameters a model is known not to accept, for model names matching a glob.
+ */
+export interface ParameterRule {
+	models: string;
+	unsupported: string[];
+}
+
+/** Optional request parameters that can be dropped when a model rejects them. */
+export const OPTIONAL_PARAMETERS = [
+	"temperature",
+	"top_p",
+	"frequency_penalty",
+	"presence_penalty",
+	"stop",
+	"reasoning_effort",
+	"thinking",
+];
+
+/**
+ * Decides which request parameters a model accepts. In order of precedence: the user's
+ * `litellm-connector.parameterSupport` overrides, parameters the proxy rejected before (persisted in
+ * global state), the bundled rules in `parameterRules.json`, then `supported_openai_params` from
+ * `/model/info`. Parameters nothing knows about are assumed to be supported.
+ */
+export class ParameterRegistry {
+	private static readonly STORAGE_KEY = "litellm-connector.learnedParameters";
+
+	private readonly _rules: { pattern: RegExp; unsupported: Set<string> }[];
+	/** Learned parameters when there is no global state to keep them in. */
+	private _learned: Record<string, string[]> = {};
+
+	constructor(
+		private readonly state?: vscode.Memento,
+		rules: readonly ParameterRule[] = bundledRules.rules
+	) {
+		this._rules = rules.map((rule) => ({ pattern: globToRegExp(rule.models), unsupported: new Set(rule.unsupported) }));
+	}
+
+	isSupported(
+		param: string,
+		modelName: string,
+		modelInfo: LiteLLMModelInfo | undefined,
+		overrides: ParameterOverrides = {}
+	): boolean {
+		for (const [glob, params] of Object.entries(overrides)) {
+			if (param in params && globToRegExp(glob).test(modelName)) {
+				return params[param];
+			}
+		}
+		if (this.load()[modelName]?.includes(param)) {
+			return false;
+		}
+		if (this._rules.some((rule) => rule.unsupported.has(param) && rule.pattern.test(modelName))) {
+			return false;
+		}
+		if (modelInfo?.supported_openai_params) {
+			return modelInfo.supported_openai_params.includes(param);
+		}
+		return true;
+	}
+
+	/**
+	 * Parameters learned from rejected requests for a model.
+	 */
+	learned(modelName: string): string[] {
+		return this.load()[modelName] ?? [];
+	}
+
+	/**
+	 * Remember that a model rejected these parameters so later requests leave them out.
+	 */
+	async learn(modelName: string, params: readonly string[]): Promise<void> {
+		const all = this.load();
+		const known = all[modelName] ?? [];
+		const added = params.filter((p) => !known.includes(p));
+		if (added.length === 0) {
+			return;
+		}
+		logger.info(`Learned that ${modelName} does not support: ${added.join(", ")}`);
+		const updated = { ...all, [modelName]: [...known, ...added] };
+		if (this.state) {
+			await this.state.update(ParameterRegistry.STORAGE_KEY, updated);
+		} else {
+			this._learned = updated;
+		}
+	}
+
+	private load(): Record<string, string[]> {
+		return this.state?.get<Record<string, string[]>>(ParameterRegistry.STORAGE_KEY) ?? this._learned;
+	}
+}
+
+/** Error messages that say a request parameter was not accepted. */
+const PARAMETER_ERROR = /unsupported param|not supported|does not support|not permitted|cannot both be specified/i;
+
+/** Two parameters the model accepts, but not together; the second one is rejected. */
+const PARAMETER_CONFLICT = /`?[\w.]+`? and `?([\w.]+)`? cannot both be specified/gi;
+
+/**
+ * Which of the `candidates` a proxy error rejects. The raw error body is searched, so messages that
+ * LiteLLM wraps around the upstream error are understood too:
+ * - LiteLLM: `does not support parameters: ['top_p', 'stop']`
+ * - OpenAI: `Unsupported parameter: 'temperature'` and the `param` field of the error
+ * - Anthropic: `temperature: Extra inputs are not permitted` and
+ *   `` `temperature` and `top_p` cannot both be specified``, where the second one is rejected
+ *
+ * Other parameter errors fall back to candidate names that appear in the message.
+ * @returns The rejected candidates, or undefined when the error is not about parameters or names none
+ * of the candidates.
+ */
+export function parseRejectedParameters(errorText: string, candidates: readonly string[]): string[] | undefined {
+	const named = new Set<string>();
+	const list = /does not support parameters:?\s*\[([^\]]*)\]/i.exec(errorText);
+	if (list) {
+		for (const match of list[1].matchAll(/["']([\w.]+)\\?["']/g)) {
+			named.add(match[1]);
+		}
+	}
+	const patterns = [
+		/unsupported (?:parameter|value):\s*[\\"'`]*([\w.]+)/gi,
+		/"param"\s*:\s*"([\w.]+)"/g,
+		/([\w.]+):\s*Extra inputs are not permitted/gi,
+		PARAMETER_CONFLICT,
+	];
+	for (const pattern of patterns) {
+		for (const match of errorText.matchAll(pattern)) {
+			named.add(match[1]);
+		}
+	}
+	if (named.size > 0) {
+		const rejected = candidates.filter((candidate) => named.has(candidate));
+		return rejected.length > 0 ? rejected : undefined;
+	}
+	if (!PARAMETER_ERROR.test(errorText)) {
+		return undefined;
+	}
+	const mentioned = candidates.filter((candidate) => new RegExp(`\\b${candidate}\\b`).test(errorText));
+	return mentioned.length > 0 ? mentioned : undefined;
+}
+
+/**
+ * Parameters a proxy error rejects only because another parameter was sent with them, like `top_p` in
+ * `` `temperature` and `top_p` cannot both be specified``. The model accepts them on their own, so they
+ * are not worth remembering.
+ */
+export function conflictingParameters(errorText: string): string[] {
+	return [...errorText.matchAll(PARAMETER_CONFLICT)].map((match) => match[1]);
+}
@@ -0,0 +1,95 @@
+import { createHash } from "crypto";
+import type { LiteLLMResponsesRequest } from "../types";
+
+/** Response ids remembered at once; older conversations fall back to a full replay. */
+const MAX_ENTRIES = 200;
+
+type InputItem = LiteLLMResponsesRequest["input"][number];
+
+/**
+ * Remembers the `response.id` of `/responses` requests so later turns of the same conversation can
+ * send only their new input items with `previous_response_id`.
+ *
+ * VS Code does not identify conversations, so a conversation is recognised by its history: each
+ * response id is stored under a hash of the full input that produced it. A later request whose input
+ * starts with that input continues the conversation.
+ */
+export class ResponsesConversationStore {
+	private readonly _responseIds = new Map<string, string>();
+
+	/**
+	 * Rewrite a request to continue a known conversation. Returns the body to send plus a callback to
+	 * record the id of the response it produces. `previousResponseId` is set when the body was shortened.
+	 */
+	prepare(body: LiteLLMResponsesRequest): {
+		body: LiteLLMResponsesRequest;
+		previousResponseId?: string;
+		record: (responseId: string) => void;
+	} {
+		const prefixHashes = this.prefixHashes(body.model, body.input);
+		const fullHash = prefixHashes[prefixHashes.length - 1];
+		const record = (responseId: string) => this.remember(fullHash, responseId);
+
+		// Longest earlier request this one extends, leaving at least one new item to send
+		for (let length = body.input.length - 1; length > 0; length--) {
+			const previousResponseId = this._responseIds.get(prefixHashes[length]);
+			if (!previousResponseId) {
+				continue;
+			}
+			// Items right after the prefix are that response's own output, which the proxy already has
+			let start = length;
+			while (start < body.input.length && this.isAssistantOutput(body.input[start])) {
+				start++;
+			}
+			if (start >= body.input.length) {
+				break;
+			}
+			return {
+				body: { ...body, input: body.input.slice(start), previous_response_id: previousResponseId },
+				previousResponseId,
+				record,
+			};
+		}
+		return { body, record };
+	}
+
+	/**
+	 * Drop a response id the proxy no longer accepts.
+	 */
+	forget(responseId: string): void {
+		for (const [hash, id] of this._responseIds) {
+			if (id === responseId) {
+				this._responseIds.delete(hash);
+			}
+		}
+	}
+
+	private remember(hash: string, responseId: string): void {
+		this._responseIds.delete(hash);
+		this._responseIds.set(hash, responseId);
+		if (this._responseIds.size > MAX_ENTRIES) {
+			this._responseIds.delete(this._responseIds.keys().next().value as string);
+		}
+	}
+
+	/**
+	 * `hashes[n]` identifies the first `n` input items for the model.
+	 */
+	private prefixHashes(model: string, input: readonly InputItem[]): string[] {
+		const hashes = [createHash("sha256").update(model).digest("hex")];
+		for (const item of input) {
+			hashes.push(
+				createHash("sha256")
+					.update(hashes[hashes.length - 1])
+					.update(JSON.stringify(item))
+					.digest("hex")
+			);
+		}
+		return hashes;
+	}
+
+	private isAssistantOutput(item: InputItem): boolean {
+		const record = item as { type?: string; role?: string };
+		return record.type === "function_call" || (record.type === "message" && record.role === "assistant");
+	}
+}
@@ -0,0 +1,226 @@
+import { tryParseJSONObject } from "../utils";
+
+/**
+ * Error reported by the proxy inside a `/responses` stream (`response.failed`, `response.incomplete`
+ * or `error` events). Unlike malformed chunks, these end the response.
+ */
+export class ResponseStreamError extends Error {
+	constructor(
+		message: string,
+		readonly code?: string
+	) {
+		super(message);
+		this.name = "ResponseStreamError";
+	}
+}
+
+/**
+ * Callbacks the decoder reports decoded output through.
+ */
+export interface ResponsesStreamSink {
+	text(delta: string): void;
+	reasoning(delta: string): void;
+	toolCall(callId: string, name: string, input: object): void;
+	usage(raw: unknown): void;
+}
+
+interface OutputItemState {
+	type: string;
+	callId?: string;
+	name?: string;
+	arguments: string;
+	emitted: boolean;
+}
+
+/**
+ * Event-driven decoder for the `/responses` streaming format. Output items are tracked by id from
+ * `response.output_item.added` until `response.output_item.done`, so function call arguments can be
+ * accumulated from `response.function_call_arguments.delta` events and emitted as soon as they are complete.
+ */
+export class ResponsesStreamDecoder {
+	private readonly _items = new Map<string, OutputItemState>();
+	/** Output item ids by `output_index`, for events that only carry the index. */
+	private readonly _itemIdsByIndex = new Map<number, string>();
+	private _responseId: string | undefined;
+
+	constructor(private readonly sink: ResponsesStreamSink) {}
+
+	/**
+	 * Id of the response being streamed, once `response.created` has been seen.
+	 */
+	get responseId(): string | undefined {
+		return this._responseId;
+	}
+
+	/**
+	 * Whether an event belongs to the Responses stream format.
+	 */
+	static isResponsesEvent(event: Record<string, unknown>): boolean {
+		const type = event.type;
+		return typeof type === "string" && (type.startsWith("response.") || type === "error");
+	}
+
+	/**
+	 * Decode one event. Throws {@link ResponseStreamError} when the stream reports a failure.
+	 */
+	handle(event: Record<string, unknown>): void {
+		switch (event.type) {
+			case "response.created":
+			case "response.in_progress":
+				this.captureResponseId(event.response);
+				return;
+
+			case "response.output_item.added":
+				this.addItem(event);
+				return;
+
+			case "response.output_text.delta": {
+				const delta = event.delta ?? event.text ?? event.chunk;
+				if (typeof delta === "string" && delta) {
+					this.sink.text(delta);
+				}
+				return;
+			}
+
+			case "response.reasoning_summary_text.delta":
+			case "response.reasoning_text.delta":
+				if (typeof event.delta === "string" && event.delta) {
+					this.sink.reasoning(event.delta);
+				}
+				return;
+
+			case "response.function_call_arguments.delta": {
+				const item = this.findItem(event);
+				if (item && typeof event.delta === "string") {
+					item.arguments += event.delta;
+				}
+				return;
+			}
+
+			case "response.function_call_arguments.done": {
+				const item = this.findItem(event);
+				if (item) {
+					if (typeof event.arguments === "string") {
+						item.arguments = event.arguments;
+					}
+					this.emitToolCall(item);
+				}
+				return;
+			}
+
+			case "response.output_item.done":
+				this.completeItem(event);
+				return;
+
+			case "response.completed":
+				this.captureResponseId(event.response);
+				this.sink.usage((event.response as Record<string, unknown> | undefined)?.usage);
+				return;
+
+			case "response.failed": {
+				const response = event.response as Record<string, unknown> | undefined;
+				const error = response?.error as Record<string, unknown> | undefined;
+				throw new ResponseStreamError(
+					`LiteLLM Responses error: ${(error?.message as string | undefined) ?? "the response failed"}`,
+					error?.code as string | undefined
+				);
+			}
+
+			case "response.incomplete": {
+				const response = event.response as Record<string, unknown> | undefined;
+				const details = response?.incomplete_details as Record<string, unknown> | undefined;
+				const reason = (details?.reason as string | undefined) ?? "unknown reason";
+				throw new ResponseStreamError(`LiteLLM Responses error: the response is incomplete (${reason})`, reason);
+			}
+
+			case "error": {
+				// Proxies send either a top-level message or a nested error object
+				const nested = event.error as Record<string, unknown> | undefined;
+				const message = (event.message ?? nested?.message ?? "stream error") as string;
+				const code = (event.code ?? nested?.code) as string | undefined;
+				throw new ResponseStreamError(`LiteLLM Responses error: ${message}`, code);
+			}
+
+			default:
+				return;
+		}
+	}
+
+	/**
+	 * Emit function calls whose arguments never reached a `done` event, e.g. when the stream was cut short.
+	 */
+	flush(): void {
+		for (const item of this._items.values()) {
+			if (item.type === "function_call" && !item.emitted) {
+				this.emitToolCall(item);
+			}
+		}
+	}
+
+	private captureResponseId(response: unknown): void {
+		const id = (response as Record<string, unknown> | undefined)?.id;
+		if (typeof id === "string") {
+			this._responseId = id;
+		}
+	}
+
+	private addItem(event: Record<string, unknown>): void {
+		const raw = event.item as Record<string, unknown> | undefined;
+		const id = raw?.id as string | undefined;
+		if (!raw || !id) {
+			return;
+		}
+		this._items.set(id, {
+			type: String(raw.type),
+			callId: raw.call_id as string | undefined,
+			name: raw.name as string | undefined,
+			arguments: typeof raw.arguments === "string" ? raw.arguments : "",
+			emitted: false,
+		});
+		if (typeof event.output_index === "number") {
+			this._itemIdsByIndex.set(event.output_index, id);
+		}
+	}
+
+	private completeItem(event: Record<string, unknown>): void {
+		const raw = event.item as Record<string, unknown> | undefined;
+		if (raw?.type !== "function_call") {
+			return;
+		}
+		const id = raw.id as string | undefined;
+		let item = id ? this._items.get(id) : undefined;
+		if (!item) {
+			// Some proxies skip `output_item.added` and only send the finished item
+			item = { type: "function_call", arguments: "", emitted: false };
+			if (id) {
+				this._items.set(id, item);
+			}
+		}
+		item.callId = (raw.call_id as string | undefined) ?? item.callId;
+		item.name = (raw.name as string | undefined) ?? item.name;
+		if (typeof raw.arguments === "string" && raw.arguments) {
+			item.arguments = raw.arguments;
+		}
+		this.emitToolCall(item);
+	}
+
+	private findItem(event: Record<string, unknown>): OutputItemState | undefined {
+		const id =
+			(event.item_id as string | undefined) ??
+			(typeof event.output_index === "number" ? this._itemIdsByIndex.get(event.output_index) : undefined);
+		return id ? this._items.get(id) : undefined;
+	}
+
+	private emitToolCall(item: OutputItemState): void {
+		if (item.emitted) {
+			return;
+		}
+		const parsed = tryParseJSONObject(item.arguments || "{}");
+		if (!parsed.ok) {
+			return;
+		}
+		item.emitted = true;
+		const callId = item.callId ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+		this.sink.toolCall(callId, item.name ?? "unknown_tool", parsed.value);
+	}
+}
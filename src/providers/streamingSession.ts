@@ -0,0 +1,525 @@
+import * as vscode from "vscode";
+import type { ResponseUsage, ToolCallBuffer } from "../types";
+import { logger } from "../logger";
+import { ResponsesStreamDecoder, ResponseStreamError } from "./responsesStreamDecoder";
+import { REASONING_BLOCK_CLOSE, REASONING_BLOCK_OPEN, tryParseJSONObject } from "../utils";
+
+type ThinkingPartConstructor = new (value: string) => vscode.LanguageModelResponsePart;
+
+/**
+ * `LanguageModelThinkingPart` is only present on VS Code builds that ship the thinking part API.
+ */
+function getThinkingPartConstructor(): ThinkingPartConstructor | undefined {
+	return (vscode as unknown as { LanguageModelThinkingPart?: ThinkingPartConstructor }).LanguageModelThinkingPart;
+}
+
+/**
+ * Decoding state for a single streamed chat response.
+ *
+ * Each call to `provideLanguageModelChatResponse` creates its own session so that concurrent
+ * requests on the same provider (e.g. an agent turn and an inline chat) never share tool call
+ * buffers or text parser state.
+ */
+export class StreamingSession {
+	private readonly _toolCallBuffers = new Map<number, ToolCallBuffer>();
+	private readonly _completedToolCallIndices = new Set<number>();
+	private _hasEmittedAssistantText = false;
+	private _emittedBeginToolCallsHint = false;
+	private _partialAssistantText = "";
+	private _textToolParserBuffer = "";
+	private _textToolActive: { name?: string; index?: number; argBuffer: string; emitted?: boolean } | undefined =
+		undefined;
+	private readonly _emittedTextToolCallKeys = new Set<string>();
+	private readonly _emittedTextToolCallIds = new Set<string>();
+	private _lastEmittedText = "";
+	private _repeatCount = 0;
+	private _reasoningBlockOpen = false;
+	private _usage: ResponseUsage | undefined;
+	private readonly _responses: ResponsesStreamDecoder;
+
+	private readonly _output: vscode.Progress<vscode.LanguageModelResponsePart>;
+	private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart>;
+
+	/**
+	 * @param reasoningOutput Receives reasoning instead of `progress`, e.g. when `progress` buffers the
+	 * answer to check it, so reasoning shown as text does not end up in the answer.
+	 */
+	constructor(
+		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+		reasoningOutput: vscode.Progress<vscode.LanguageModelResponsePart> = progress
+	) {
+		this._output = reasoningOutput;
+		this.progress = {
+			report: (part) => {
+				this.closeReasoningBlock();
+				if (part instanceof vscode.LanguageModelTextPart) {
+					this._partialAssistantText += part.value;
+				}
+				progress.report(part);
+			},
+		};
+		this._responses = new ResponsesStreamDecoder({
+			text: (delta) => this.reportTextDelta(delta),
+			reasoning: (delta) => this.reportReasoning(delta),
+			toolCall: (callId, name, input) =>
+				this.progress.report(new vscode.LanguageModelToolCallPart(callId, name, input)),
+			usage: (raw) => this.captureUsage(raw),
+		});
+	}
+
+	/**
+	 * Id of the `/responses` response being streamed, if the endpoint reported one.
+	 */
+	get responseId(): string | undefined {
+		return this._responses.responseId;
+	}
+
+	/**
+	 * Assistant text reported so far in this session.
+	 */
+	get partialAssistantText(): string {
+		return this._partialAssistantText;
+	}
+
+	/**
+	 * Token usage from the final usage chunk or `response.completed` event, if the stream carried one.
+	 */
+	get usage(): ResponseUsage | undefined {
+		return this._usage;
+	}
+
+	/**
+	 * Read an SSE response body to completion, reporting decoded parts as they arrive.
+	 */
+	async consume(responseBody: ReadableStream<Uint8Array>, token: vscode.CancellationToken): Promise<void> {
+		const reader = responseBody.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+
+		const cancellation = token.onCancellationRequested(() => {
+			reader.cancel("User cancelled");
+		});
+
+		try {
+			while (!token.isCancellationRequested) {
+				const { done, value } = await reader.read();
+				if (done) {
+					break;
+				}
+
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					await this.processLine(line);
+				}
+			}
+			this._responses.flush();
+			this.closeReasoningBlock();
+		} finally {
+			cancellation.dispose();
+			reader.releaseLock();
+		}
+	}
+
+	/**
+	 * Process a single SSE line. Non-data lines are ignored.
+	 */
+	async processLine(line: string): Promise<void> {
+		if (line) {
+			logger.trace(`SSE: ${line}`);
+		}
+		if (!line.startsWith("data: ")) {
+			return;
+		}
+		const data = line.slice(6);
+		if (data === "[DONE]") {
+			await this.flushToolCallBuffers(false);
+			await this.flushActiveTextToolCall();
+			this._responses.flush();
+			this.closeReasoningBlock();
+			return;
+		}
+
+		let parsed: Record<string, unknown>;
+		try {
+			parsed = JSON.parse(data);
+		} catch (err) {
+			logger.warn(
+				`Ignoring unparseable stream chunk (${err instanceof Error ? err.message : String(err)}): ${data.slice(0, 200)}`
+			);
+			return;
+		}
+		try {
+			await this.processDelta(parsed);
+		} catch (err) {
+			if (err instanceof ResponseStreamError) {
+				throw err;
+			}
+			// A malformed chunk must not abort the rest of the response
+			logger.warn(`Failed to process stream chunk: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	}
+
+	private async processDelta(delta: Record<string, unknown>): Promise<boolean> {
+		let emitted = false;
+		const eventType = delta.type as string | undefined;
+
+		if (ResponsesStreamDecoder.isResponsesEvent(delta)) {
+			this._responses.handle(delta);
+			return true;
+		}
+		this.captureUsage(delta.usage);
+
+		let choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
+		if (!choice) {
+			const output = (delta.output as Record<string, unknown>[] | undefined)?.[0];
+			if (output) {
+				const content = output.content as Record<string, unknown>[] | undefined;
+				const textContent = content?.find((c) => c.type === "output_text");
+				if (textContent) {
+					choice = {
+						delta: { content: textContent.text },
+						finish_reason: output.finish_reason,
+					};
+				}
+			}
+		}
+
+		if (!choice && !eventType) {
+			const content = (delta.content || delta.text) as string | undefined;
+			if (content) {
+				choice = { delta: { content }, finish_reason: undefined };
+			}
+		}
+
+		if (!choice) {
+			return false;
+		}
+
+		const deltaObj = choice.delta as Record<string, unknown>;
+		const reasoning = this.extractReasoning(deltaObj);
+		if (reasoning) {
+			this.reportReasoning(reasoning);
+			emitted = true;
+		}
+
+		if (deltaObj?.content) {
+			const content = String(deltaObj.content);
+			const res = this.processTextContent(content);
+			if (res.emittedText) {
+				this._hasEmittedAssistantText = true;
+			}
+			if (res.emittedAny) {
+				emitted = true;
+			}
+		}
+
+		if (deltaObj?.tool_calls) {
+			const toolCalls = deltaObj.tool_calls as Record<string, unknown>[];
+			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
+				this.progress.report(new vscode.LanguageModelTextPart(" "));
+				this._emittedBeginToolCallsHint = true;
+			}
+
+			for (const tc of toolCalls) {
+				const idx = (tc["index"] as number) ?? 0;
+				if (this._completedToolCallIndices.has(idx)) {
+					continue;
+				}
+				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
+				if (tc["id"]) {
+					buf.id = tc["id"] as string;
+				}
+				const func = tc["function"] as Record<string, unknown> | undefined;
+				if (func?.["name"]) {
+					buf.name = func["name"] as string;
+				}
+				if (func?.["arguments"]) {
+					buf.args += func["arguments"] as string;
+				}
+				this._toolCallBuffers.set(idx, buf);
+				await this.tryEmitBufferedToolCall(idx);
+			}
+		}
+
+		const finish = choice.finish_reason;
+		if (finish === "tool_calls" || finish === "stop") {
+			await this.flushToolCallBuffers(true);
+		}
+		return emitted;
+	}
+
+	private reportTextDelta(text: string): void {
+		if (text === this._lastEmittedText) {
+			this._repeatCount++;
+		} else {
+			this._lastEmittedText = text;
+			this._repeatCount = 0;
+		}
+		if (this._repeatCount < 20) {
+			this.progress.report(new vscode.LanguageModelTextPart(text));
+		}
+	}
+
+	/**
+	 * Record a usage object in either chat completions (`prompt_tokens`) or responses (`input_tokens`) shape.
+	 */
+	private captureUsage(raw: unknown): void {
+		if (!raw || typeof raw !== "object") {
+			return;
+		}
+		const usage = raw as Record<string, unknown>;
+		const num = (value: unknown): number => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+		const promptDetails = (usage.prompt_tokens_details ?? usage.input_tokens_details) as
+			Record<string, unknown> | undefined;
+
+		this._usage = {
+			promptTokens: num(usage.prompt_tokens ?? usage.input_tokens),
+			completionTokens: num(usage.completion_tokens ?? usage.output_tokens),
+			cachedTokens: num(promptDetails?.cached_tokens ?? usage.cache_read_input_tokens),
+			cacheWriteTokens: num(usage.cache_creation_input_tokens),
+			cost: typeof usage.cost === "number" ? usage.cost : undefined,
+		};
+	}
+
+	/**
+	 * Reasoning text from a chat completions delta. LiteLLM normalizes most providers to
+	 * `reasoning_content`; some pass Anthropic `thinking_blocks` or a bare `thinking` string through.
+	 */
+	private extractReasoning(deltaObj: Record<string, unknown> | undefined): string | undefined {
+		if (!deltaObj) {
+			return undefined;
+		}
+		if (typeof deltaObj.reasoning_content === "string") {
+			return deltaObj.reasoning_content;
+		}
+		if (typeof deltaObj.thinking === "string") {
+			return deltaObj.thinking;
+		}
+		const blocks = deltaObj.thinking_blocks as Record<string, unknown>[] | undefined;
+		if (Array.isArray(blocks)) {
+			return blocks.map((b) => (typeof b.thinking === "string" ? b.thinking : "")).join("");
+		}
+		return undefined;
+	}
+
+	/**
+	 * Report reasoning as a thinking part, or as a collapsed block ahead of the answer on VS Code
+	 * builds without one. Reasoning never counts towards `partialAssistantText`.
+	 */
+	private reportReasoning(text: string): void {
+		const ThinkingPart = getThinkingPartConstructor();
+		if (ThinkingPart) {
+			this._output.report(new ThinkingPart(text));
+			return;
+		}
+		if (!this._reasoningBlockOpen) {
+			this._output.report(new vscode.LanguageModelTextPart(REASONING_BLOCK_OPEN));
+			this._reasoningBlockOpen = true;
+		}
+		this._output.report(new vscode.LanguageModelTextPart(text));
+	}
+
+	private closeReasoningBlock(): void {
+		if (this._reasoningBlockOpen) {
+			this._reasoningBlockOpen = false;
+			this._output.report(new vscode.LanguageModelTextPart(REASONING_BLOCK_CLOSE));
+		}
+	}
+
+	private processTextContent(input: string): { emittedText: boolean; emittedAny: boolean } {
+		const BEGIN = "<|tool_call_begin|>";
+		const ARG_BEGIN = "<|tool_call_argument_begin|>";
+		const END = "<|tool_call_end|>";
+
+		let data = this._textToolParserBuffer + input;
+		let emittedText = false;
+		let emittedAny = false;
+		let visibleOut = "";
+
+		while (data.length > 0) {
+			if (!this._textToolActive) {
+				const b = data.indexOf(BEGIN);
+				if (b === -1) {
+					const longestPartialPrefix = ((): number => {
+						for (let k = Math.min(BEGIN.length - 1, data.length - 1); k > 0; k--) {
+							if (data.endsWith(BEGIN.slice(0, k))) {
+								return k;
+							}
+						}
+						return 0;
+					})();
+					if (longestPartialPrefix > 0) {
+						const visible = data.slice(0, data.length - longestPartialPrefix);
+						if (visible) {
+							visibleOut += this.stripControlTokens(visible);
+						}
+						this._textToolParserBuffer = data.slice(data.length - longestPartialPrefix);
+						data = "";
+						break;
+					} else {
+						visibleOut += this.stripControlTokens(data);
+						data = "";
+						break;
+					}
+				}
+				const pre = data.slice(0, b);
+				if (pre) {
+					visibleOut += this.stripControlTokens(pre);
+				}
+				data = data.slice(b + BEGIN.length);
+
+				const a = data.indexOf(ARG_BEGIN);
+				const e = data.indexOf(END);
+				let delimIdx = -1;
+				let delimKind: "arg" | "end" | undefined = undefined;
+				if (a !== -1 && (e === -1 || a < e)) {
+					delimIdx = a;
+					delimKind = "arg";
+				} else if (e !== -1) {
+					delimIdx = e;
+					delimKind = "end";
+				} else {
+					this._textToolParserBuffer = BEGIN + data;
+					data = "";
+					break;
+				}
+
+				const header = data.slice(0, delimIdx).trim();
+				const m = header.match(/^([A-Za-z0-9_\-.]+)(?::(\d+))?/);
+				const name = m?.[1] ?? undefined;
+				const index = m?.[2] ? Number(m?.[2]) : undefined;
+				this._textToolActive = { name, index, argBuffer: "", emitted: false };
+				if (delimKind === "arg") {
+					data = data.slice(delimIdx + ARG_BEGIN.length);
+				} else {
+					data = data.slice(delimIdx + END.length);
+					const did = this.emitTextToolCallIfValid(this._textToolActive, "{}");
+					if (did) {
+						this._textToolActive.emitted = true;
+						emittedAny = true;
+					}
+					this._textToolActive = undefined;
+				}
+				continue;
+			}
+
+			const e2 = data.indexOf(END);
+			if (e2 === -1) {
+				this._textToolActive.argBuffer += data;
+				if (!this._textToolActive.emitted) {
+					const did = this.emitTextToolCallIfValid(this._textToolActive, this._textToolActive.argBuffer);
+					if (did) {
+						this._textToolActive.emitted = true;
+						emittedAny = true;
+					}
+				}
+				data = "";
+				break;
+			} else {
+				this._textToolActive.argBuffer += data.slice(0, e2);
+				data = data.slice(e2 + END.length);
+				if (!this._textToolActive.emitted) {
+					const did = this.emitTextToolCallIfValid(this._textToolActive, this._textToolActive.argBuffer);
+					if (did) {
+						emittedAny = true;
+					}
+				}
+				this._textToolActive = undefined;
+				continue;
+			}
+		}
+
+		if (visibleOut) {
+			if (visibleOut === this._lastEmittedText) {
+				this._repeatCount++;
+			} else {
+				this._lastEmittedText = visibleOut;
+				this._repeatCount = 0;
+			}
+
+			if (this._repeatCount < 20) {
+				this.progress.report(new vscode.LanguageModelTextPart(visibleOut));
+				emittedText = true;
+				emittedAny = true;
+			}
+		}
+
+		this._textToolParserBuffer = data;
+		return { emittedText, emittedAny };
+	}
+
+	private emitTextToolCallIfValid(
+		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
+		argText: string
+	): boolean {
+		const name = call.name ?? "unknown_tool";
+		const parsed = tryParseJSONObject(argText);
+		if (!parsed.ok) {
+			return false;
+		}
+		const canonical = JSON.stringify(parsed.value);
+		const key = `${name}:${canonical}`;
+		if (typeof call.index === "number") {
+			const idKey = `${name}:${call.index}`;
+			if (this._emittedTextToolCallIds.has(idKey)) {
+				return false;
+			}
+			this._emittedTextToolCallIds.add(idKey);
+		} else if (this._emittedTextToolCallKeys.has(key)) {
+			return false;
+		}
+		this._emittedTextToolCallKeys.add(key);
+		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
+		this.progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
+		return true;
+	}
+
+	private async flushActiveTextToolCall(): Promise<void> {
+		if (!this._textToolActive) {
+			return;
+		}
+		this.emitTextToolCallIfValid(this._textToolActive, this._textToolActive.argBuffer);
+		this._textToolActive = undefined;
+	}
+
+	private async tryEmitBufferedToolCall(index: number): Promise<void> {
+		const buf = this._toolCallBuffers.get(index);
+		if (!buf || !buf.name) {
+			return;
+		}
+		const canParse = tryParseJSONObject(buf.args);
+		if (!canParse.ok) {
+			return;
+		}
+		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+		this.progress.report(new vscode.LanguageModelToolCallPart(id, buf.name, canParse.value));
+		this._toolCallBuffers.delete(index);
+		this._completedToolCallIndices.add(index);
+	}
+
+	private async flushToolCallBuffers(throwOnInvalid: boolean): Promise<void> {
+		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
+			const parsed = tryParseJSONObject(buf.args);
+			if (!parsed.ok) {
+				if (throwOnInvalid) {
+					throw new Error("Invalid JSON for tool call");
+				}
+				continue;
+			}
+			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+			const name = buf.name ?? "unknown_tool";
+			this.progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
+			this._toolCallBuffers.delete(idx);
+			this._completedToolCallIndices.add(idx);
+		}
+	}
+
+	private stripControlTokens(text: string): string {
+		return text
+			.replace(/<\|[a-zA-Z0-9_-]+_section_(?:begin|end)\|>/g, "")
+			.replace(/<\|tool_call_(?:argument_)?(?:begin|end)\|>/g, "");
+	}
+}
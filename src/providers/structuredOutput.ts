@@ -0,0 +1,212 @@
+import { isDeepStrictEqual } from "util";
+import * as vscode from "vscode";
+import type { LiteLLMModelInfo, OpenAIChatMessage, ResponseFormat } from "../types";
+
+/** A `response_format` that asks for JSON. */
+export type JsonResponseFormat = Exclude<ResponseFormat, { type: "text" }>;
+
+/** Schema errors listed in the error message of a rejected response. */
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * Read the `response_format` model option of a `vscode.lm` request.
+ * @returns The JSON format requested, or undefined for plain text.
+ * @throws When the option is not a valid `response_format`.
+ */
+export function parseResponseFormat(value: unknown): JsonResponseFormat | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isRecord(value)) {
+		throw new Error("Invalid response_format: expected an object");
+	}
+	if (value.type === "text") {
+		return undefined;
+	}
+	if (value.type === "json_object") {
+		return { type: "json_object" };
+	}
+	if (value.type !== "json_schema") {
+		throw new Error(`Invalid response_format: unsupported type ${JSON.stringify(value.type)}`);
+	}
+	const jsonSchema = value.json_schema;
+	if (!isRecord(jsonSchema) || typeof jsonSchema.name !== "string" || !jsonSchema.name) {
+		throw new Error("Invalid response_format: json_schema needs a name");
+	}
+	if (jsonSchema.schema !== undefined && !isRecord(jsonSchema.schema)) {
+		throw new Error("Invalid response_format: json_schema.schema must be an object");
+	}
+	const format: JsonResponseFormat = { type: "json_schema", json_schema: { name: jsonSchema.name } };
+	if (typeof jsonSchema.description === "string") {
+		format.json_schema.description = jsonSchema.description;
+	}
+	if (jsonSchema.schema !== undefined) {
+		format.json_schema.schema = jsonSchema.schema;
+	}
+	if (typeof jsonSchema.strict === "boolean") {
+		format.json_schema.strict = jsonSchema.strict;
+	}
+	return format;
+}
+
+/**
+ * Whether the model takes the format as a request parameter. JSON schemas need
+ * `supports_response_schema`; plain JSON mode also works with `response_format` in the supported params.
+ */
+export function supportsResponseFormat(format: JsonResponseFormat, modelInfo: LiteLLMModelInfo | undefined): boolean {
+	if (modelInfo?.supports_response_schema === true) {
+		return true;
+	}
+	return format.type === "json_object" && modelInfo?.supported_openai_params?.includes("response_format") === true;
+}
+
+/**
+ * Ask for the format in the system prompt, for models that cannot take it as a parameter. The text is
+ * appended to the last leading system message, so it follows the rest of the system prompt.
+ */
+export function addFormatInstructions(messages: OpenAIChatMessage[], format: JsonResponseFormat): void {
+	const instructions =
+		format.type === "json_schema" && format.json_schema.schema
+			? "Respond only with a JSON value that conforms to this JSON schema, without any other text or code " +
+				`fences:\n${JSON.stringify(format.json_schema.schema)}`
+			: "Respond only with a JSON object, without any other text or code fences.";
+
+	let index = -1;
+	while (index + 1 < messages.length && messages[index + 1].role === "system") {
+		index++;
+	}
+	const system = messages[index];
+	if (!system) {
+		messages.unshift({ role: "system", content: instructions });
+	} else if (Array.isArray(system.content)) {
+		system.content.push({ type: "text", text: `\n\n${instructions}` });
+	} else {
+		system.content = system.content ? `${system.content}\n\n${instructions}` : instructions;
+	}
+}
+
+/**
+ * Holds back the text of a response so it can be checked against the requested format before the
+ * caller sees it. Tool calls and reasoning pass through as they arrive.
+ */
+export class StructuredOutputBuffer implements vscode.Progress<vscode.LanguageModelResponsePart> {
+	private _text = "";
+
+	constructor(
+		private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+		private readonly format: JsonResponseFormat
+	) {}
+
+	report(part: vscode.LanguageModelResponsePart): void {
+		if (part instanceof vscode.LanguageModelTextPart) {
+			this._text += part.value;
+		} else {
+			this.progress.report(part);
+		}
+	}
+
+	/**
+	 * Report the buffered text as a JSON value, without any code fences the model wrapped it in.
+	 * @throws When the text is not JSON or does not match the schema.
+	 */
+	flush(): void {
+		if (!this._text.trim()) {
+			return;
+		}
+		const fenced = /```(?:json)?[ \t]*\n([\s\S]*?)```/i.exec(this._text);
+		const json = (fenced ? fenced[1] : this._text).trim();
+		let value: unknown;
+		try {
+			value = JSON.parse(json);
+		} catch {
+			throw new Error("Model response is not valid JSON");
+		}
+
+		const schema = this.format.type === "json_schema" ? this.format.json_schema.schema : { type: "object" };
+		const errors = schema ? validateJsonSchema(value, schema) : [];
+		if (errors.length > 0) {
+			const listed = errors.slice(0, MAX_REPORTED_ERRORS).join("; ");
+			const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : "";
+			throw new Error(`Model response does not match the requested JSON schema: ${listed}${more}`);
+		}
+		this.progress.report(new vscode.LanguageModelTextPart(json));
+	}
+}
+
+/**
+ * Check a value against a JSON schema. Covers the keywords used in structured output schemas: `type`,
+ * `enum`, `const`, `properties`, `required`, `additionalProperties`, `items`, `anyOf` and `oneOf`.
+ * Other keywords, including `$ref`, are not checked.
+ * @returns One message per violation, with a JSON path to the offending value.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, unknown>, path = "$"): string[] {
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			return [`${path} should be ${types.join(" or ")}`];
+		}
+	}
+
+	const errors: string[] = [];
+	if (Array.isArray(schema.enum) && !schema.enum.some((option) => isDeepStrictEqual(option, value))) {
+		errors.push(`${path} should be one of ${JSON.stringify(schema.enum)}`);
+	}
+	if ("const" in schema && !isDeepStrictEqual(schema.const, value)) {
+		errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+	}
+	const matching = (options: unknown[]) =>
+		options.filter((option) => isRecord(option) && validateJsonSchema(value, option, path).length === 0).length;
+	if (Array.isArray(schema.anyOf) && matching(schema.anyOf) === 0) {
+		errors.push(`${path} does not match any schema in anyOf`);
+	}
+	if (Array.isArray(schema.oneOf) && matching(schema.oneOf) !== 1) {
+		errors.push(`${path} should match exactly one schema in oneOf`);
+	}
+
+	if (isRecord(value)) {
+		const properties = isRecord(schema.properties) ? schema.properties : {};
+		if (Array.isArray(schema.required)) {
+			for (const name of schema.required) {
+				if (typeof name === "string" && !(name in value)) {
+					errors.push(`${path} is missing required property "${name}"`);
+				}
+			}
+		}
+		for (const [name, child] of Object.entries(value)) {
+			const propertySchema = properties[name] ?? schema.additionalProperties;
+			if (isRecord(propertySchema)) {
+				errors.push(...validateJsonSchema(child, propertySchema, `${path}.${name}`));
+			} else if (propertySchema === false) {
+				errors.push(`${path} has unexpected property "${name}"`);
+			}
+		}
+	}
+	if (Array.isArray(value) && isRecord(schema.items)) {
+		const items = schema.items;
+		value.forEach((item, i) => errors.push(...validateJsonSchema(item, items, `${path}[${i}]`)));
+	}
+	return errors;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+	switch (type) {
+		case "object":
+			return isRecord(value);
+		case "array":
+			return Array.isArray(value);
+		case "integer":
+			return Number.isInteger(value);
+		case "null":
+			return value === null;
+		case "number":
+		case "string":
+		case "boolean":
+			return typeof value === type;
+		default:
+			return true;
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
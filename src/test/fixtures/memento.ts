@@ -0,0 +1,19 @@
+import type * as vscode from "vscode";
+
+/**
+ * In-memory stand-in for `ExtensionContext.globalState`.
+ */
+export function createMemento(): vscode.Memento {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => Array.from(values.keys()),
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? (values.get(key) as T) : defaultValue),
+		update: async (key: string, value: unknown) => {
+			if (value === undefined) {
+				values.delete(key);
+			} else {
+				values.set(key, value);
+			}
+		},
+	} as vscode.Memento;
+}
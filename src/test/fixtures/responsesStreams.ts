@@ -0,0 +1,189 @@
+/**
+ * Server-sent event transcripts recorded from a LiteLLM proxy's `/responses` endpoint (ids shortened,
+ * unrelated fields trimmed). Each fixture is the raw response body as it arrives on the wire.
+ */
+
+function sse(events: Record<string, unknown>[]): string {
+	return events.map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join("");
+}
+
+const CREATED = {
+	type: "response.created",
+	sequence_number: 0,
+	response: { id: "resp_01", object: "response", status: "in_progress", output: [] },
+};
+
+/** Text answer followed by a function call whose arguments arrive in several deltas. */
+export const RESPONSES_TEXT_THEN_TOOL_CALL = sse([
+	CREATED,
+	{ type: "response.in_progress", sequence_number: 1, response: { id: "resp_01", status: "in_progress" } },
+	{
+		type: "response.output_item.added",
+		sequence_number: 2,
+		output_index: 0,
+		item: { id: "msg_01", type: "message", role: "assistant", status: "in_progress", content: [] },
+	},
+	{
+		type: "response.content_part.added",
+		sequence_number: 3,
+		item_id: "msg_01",
+		output_index: 0,
+		content_index: 0,
+		part: { type: "output_text", text: "" },
+	},
+	{
+		type: "response.output_text.delta",
+		sequence_number: 4,
+		item_id: "msg_01",
+		output_index: 0,
+		content_index: 0,
+		delta: "Let me check ",
+	},
+	{
+		type: "response.output_text.delta",
+		sequence_number: 5,
+		item_id: "msg_01",
+		output_index: 0,
+		content_index: 0,
+		delta: "the file.",
+	},
+	{
+		type: "response.output_text.done",
+		sequence_number: 6,
+		item_id: "msg_01",
+		output_index: 0,
+		content_index: 0,
+		text: "Let me check the file.",
+	},
+	{
+		type: "response.output_item.done",
+		sequence_number: 7,
+		output_index: 0,
+		item: {
+			id: "msg_01",
+			type: "message",
+			role: "assistant",
+			status: "completed",
+			content: [{ type: "output_text", text: "Let me check the file." }],
+		},
+	},
+	{
+		type: "response.output_item.added",
+		sequence_number: 8,
+		output_index: 1,
+		item: { id: "fc_01", type: "function_call", call_id: "call_abc", name: "read_file", arguments: "" },
+	},
+	{
+		type: "response.function_call_arguments.delta",
+		sequence_number: 9,
+		item_id: "fc_01",
+		output_index: 1,
+		delta: '{"pa',
+	},
+	{
+		type: "response.function_call_arguments.delta",
+		sequence_number: 10,
+		item_id: "fc_01",
+		output_index: 1,
+		delta: 'th":"src/a.ts"}',
+	},
+	{
+		type: "response.function_call_arguments.done",
+		sequence_number: 11,
+		item_id: "fc_01",
+		output_index: 1,
+		arguments: '{"path":"src/a.ts"}',
+	},
+	{
+		type: "response.output_item.done",
+		sequence_number: 12,
+		output_index: 1,
+		item: {
+			id: "fc_01",
+			type: "function_call",
+			status: "completed",
+			call_id: "call_abc",
+			name: "read_file",
+			arguments: '{"path":"src/a.ts"}',
+		},
+	},
+	{
+		type: "response.completed",
+		sequence_number: 13,
+		response: {
+			id: "resp_01",
+			status: "completed",
+			usage: {
+				input_tokens: 321,
+				input_tokens_details: { cached_tokens: 256 },
+				output_tokens: 42,
+				total_tokens: 363,
+			},
+		},
+	},
+]);
+
+/** Reasoning summary streamed before the answer. */
+export const RESPONSES_REASONING_SUMMARY = sse([
+	CREATED,
+	{
+		type: "response.output_item.added",
+		sequence_number: 1,
+		output_index: 0,
+		item: { id: "rs_01", type: "reasoning", summary: [] },
+	},
+	{
+		type: "response.reasoning_summary_text.delta",
+		sequence_number: 2,
+		item_id: "rs_01",
+		output_index: 0,
+		summary_index: 0,
+		delta: "Comparing both options.",
+	},
+	{
+		type: "response.output_item.added",
+		sequence_number: 3,
+		output_index: 1,
+		item: { id: "msg_02", type: "message", role: "assistant", content: [] },
+	},
+	{ type: "response.output_text.delta", sequence_number: 4, item_id: "msg_02", output_index: 1, delta: "Use B." },
+	{ type: "response.completed", sequence_number: 5, response: { id: "resp_01", status: "completed" } },
+]);
+
+/** Upstream provider failure after some text was streamed. */
+export const RESPONSES_FAILED = sse([
+	CREATED,
+	{ type: "response.output_text.delta", sequence_number: 1, item_id: "msg_01", output_index: 0, delta: "Partial" },
+	{
+		type: "response.failed",
+		sequence_number: 2,
+		response: {
+			id: "resp_01",
+			status: "failed",
+			error: { code: "server_error", message: "The upstream model provider returned an error." },
+		},
+	},
+]);
+
+/** Output cut off by the token limit. */
+export const RESPONSES_INCOMPLETE = sse([
+	CREATED,
+	{ type: "response.output_text.delta", sequence_number: 1, item_id: "msg_01", output_index: 0, delta: "Long answ" },
+	{
+		type: "response.incomplete",
+		sequence_number: 2,
+		response: { id: "resp_01", status: "incomplete", incomplete_details: { reason: "max_output_tokens" } },
+	},
+]);
+
+/** Stream-level error event, e.g. a rate limit hit mid-stream. */
+export const RESPONSES_ERROR_EVENT = sse([
+	CREATED,
+	{
+		type: "error",
+		sequence_number: 1,
+		code: "rate_limit_exceeded",
+		message: "Rate limit reached for requests",
+		param: null,
+	},
+]);
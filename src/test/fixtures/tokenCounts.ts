@@ -0,0 +1,25 @@
+/**
+ * Reference token counts produced by OpenAI's tiktoken for the cl100k_base and o200k_base encodings.
+ */
+export const TOKEN_COUNT_FIXTURES: { text: string; cl100k: number; o200k: number }[] = [
+	{ text: "Hello world", cl100k: 2, o200k: 2 },
+	{ text: "The quick brown fox jumps over the lazy dog.", cl100k: 10, o200k: 10 },
+	{
+		text: "export function add(a: number, b: number): number {\n\treturn a + b;\n}\n",
+		cl100k: 19,
+		o200k: 19,
+	},
+	{
+		text: 'for (let i = 0; i < items.length; i++) {\n    console.log(items[i]?.name ?? "<none>");\n}',
+		cl100k: 28,
+		o200k: 28,
+	},
+	{ text: "你好，世界！今天天气很好。", cl100k: 16, o200k: 9 },
+	{ text: "日本語のテキストはトークンが多くなります。", cl100k: 20, o200k: 16 },
+	{ text: "한국어 문장도 포함합니다.", cl100k: 11, o200k: 8 },
+	{
+		text: '{"name":"readFile","arguments":{"path":"src/extension.ts","limit":200}}',
+		cl100k: 19,
+		o200k: 19,
+	},
+];
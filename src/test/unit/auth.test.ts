@@ -0,0 +1,202 @@
+import * as assert from "assert";
+import * as os from "os";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { AuthManager } from "../../auth/authManager";
+import { parseTokenOutput } from "../../auth/commandToken";
+import { OAuthDeviceFlowProvider } from "../../auth/oauthDeviceFlow";
+import { ConfigManager } from "../../config/configManager";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+
+function createSecrets(initial: Record<string, string> = {}): vscode.SecretStorage {
+	const values = new Map(Object.entries(initial));
+	return {
+		get: async (key: string) => values.get(key),
+		store: async (key: string, value: string) => {
+			values.set(key, value);
+		},
+		delete: async (key: string) => {
+			values.delete(key);
+		},
+		onDidChange: (_listener: unknown) => ({ dispose() {} }),
+	} as unknown as vscode.SecretStorage;
+}
+
+function jwt(claims: Record<string, unknown>): string {
+	return `e30.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.sig`;
+}
+
+suite("Authentication Unit Tests", () => {
+	let sandbox: sinon.SinonSandbox;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	function stubAuthSettings(auth: Record<string, unknown>) {
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => (key === "auth" ? auth : undefined),
+		} as unknown as vscode.WorkspaceConfiguration);
+	}
+
+	test("parseTokenOutput reads plain tokens, JWT expiry and JSON output", () => {
+		assert.deepStrictEqual(parseTokenOutput("  abc123\n"), { token: "abc123", expiresAt: undefined });
+
+		const token = jwt({ sub: "me", exp: 2_000_000_000 });
+		assert.deepStrictEqual(parseTokenOutput(token), { token, expiresAt: 2_000_000_000_000 });
+
+		assert.deepStrictEqual(parseTokenOutput('{"accessToken": "az", "expiresOn": "2030-01-01T00:00:00Z"}'), {
+			token: "az",
+			expiresAt: Date.parse("2030-01-01T00:00:00Z"),
+		});
+		const before = Date.now();
+		const parsed = parseTokenOutput('{"access_token": "oauth", "expires_in": 3600}');
+		assert.strictEqual(parsed.token, "oauth");
+		assert.ok(parsed.expiresAt! >= before + 3_600_000);
+
+		assert.throws(() => parseTokenOutput("\n"), /printed no token/);
+		assert.throws(() => parseTokenOutput("{not json"), /invalid JSON/);
+	});
+
+	test("getAuthSettings lets the profile entry replace the * entry and ignores incomplete ones", () => {
+		stubAuthSettings({
+			"*": { type: "command", command: "get-token" },
+			Default: { type: "oauth", tokenUrl: "https://idp/token" },
+			prod: { type: "apiKey" },
+		});
+		const manager = new ConfigManager(createSecrets());
+
+		assert.deepStrictEqual(manager.getAuthSettings({ id: "default", name: "Default", enabled: true }), {
+			type: "command",
+			command: "get-token",
+		});
+		assert.deepStrictEqual(manager.getAuthSettings({ id: "prod", name: "Prod", enabled: true }), { type: "apiKey" });
+	});
+
+	test("command tokens are cached until the proxy rejects them", async () => {
+		stubAuthSettings({ "*": { type: "command", command: 'node -p "Math.random()"' } });
+		const auth = new AuthManager(new ConfigManager(createSecrets()));
+		const config = { url: "http://localhost:4000", key: "stored-key" };
+
+		const first = await auth.authorize("default", config);
+		assert.notStrictEqual(first.key, "stored-key");
+		assert.strictEqual((await auth.authorize("default", config)).key, first.key);
+
+		assert.strictEqual(await auth.refresh("default"), true);
+		const second = await auth.authorize("default", config);
+		assert.ok(second.key);
+		assert.notStrictEqual(second.key, first.key);
+	});
+
+	test("failing token commands are reported and not cached", async () => {
+		stubAuthSettings({ "*": { type: "command", command: 'node -e "process.exit(3)"' } });
+		const auth = new AuthManager(new ConfigManager(createSecrets()));
+
+		await assert.rejects(auth.authorize("default", { url: "http://localhost:4000" }), /Token command failed/);
+		await assert.rejects(auth.authorize("default", { url: "http://localhost:4000" }), /Token command failed/);
+	});
+
+	test("token commands run from the home directory, not the workspace", async () => {
+		stubAuthSettings({ "*": { type: "command", command: 'node -p "process.cwd()"' } });
+		const auth = new AuthManager(new ConfigManager(createSecrets()));
+
+		assert.strictEqual((await auth.authorize("default", { url: "http://localhost:4000" })).key, os.homedir());
+	});
+
+	test("stored API keys are sent as they are and cannot be refreshed", async () => {
+		stubAuthSettings({});
+		const auth = new AuthManager(new ConfigManager(createSecrets()));
+		const config = { url: "http://localhost:4000", key: "stored-key" };
+
+		assert.deepStrictEqual(await auth.authorize("default", config), config);
+		assert.strictEqual(await auth.refresh("default"), false);
+	});
+
+	test("a chat request rejected with 401 is sent once more with a refreshed token", async () => {
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: () => undefined,
+		} as unknown as vscode.WorkspaceConfiguration);
+		const secrets = createSecrets({ "litellm-connector.baseUrl": "http://localhost:4000" });
+		const auth = new AuthManager(new ConfigManager(secrets));
+		let issued = 0;
+		sandbox.stub(auth, "authorize").callsFake(async (_profileId, config) => ({ ...config, key: `token-${++issued}` }));
+		const refresh = sandbox.stub(auth, "refresh").resolves(true);
+		const keys: (string | undefined)[] = [];
+		sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async function (this: LiteLLMClient) {
+			keys.push((this as unknown as { config: { key?: string } }).config.key);
+			throw new Error('LiteLLM API error: 401 Unauthorized\n{"error": {"message": "Authentication Error"}}');
+		});
+
+		const provider = new LiteLLMChatModelProvider(secrets, "test-ua", undefined, undefined, undefined, auth);
+		const model = {
+			id: "gpt-4o",
+			name: "gpt-4o",
+			family: "litellm",
+			version: "1.0.0",
+			maxInputTokens: 1000,
+			maxOutputTokens: 100,
+			capabilities: {},
+		} as vscode.LanguageModelChatInformation;
+		await assert.rejects(
+			provider.provideLanguageModelChatResponse(
+				model,
+				[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")],
+				{ toolMode: vscode.LanguageModelChatToolMode.Auto },
+				{ report: () => {} },
+				new vscode.CancellationTokenSource().token
+			),
+			/Authentication Error/
+		);
+
+		assert.deepStrictEqual(keys, ["token-1", "token-2"]);
+		assert.strictEqual(refresh.callCount, 1);
+	});
+
+	test("the device flow polls until the user signs in and refreshes expired tokens", async () => {
+		stubAuthSettings({
+			"*": {
+				type: "oauth",
+				deviceAuthorizationUrl: "https://idp.example.com/device",
+				tokenUrl: "https://idp.example.com/token",
+				clientId: "vscode",
+				scopes: ["openid", "offline_access"],
+			},
+		});
+		const forms: Record<string, string>[] = [];
+		const responses = [
+			{
+				device_code: "dev-1",
+				user_code: "ABCD-EFGH",
+				verification_uri: "https://idp.example.com/activate",
+				interval: 0,
+			},
+			{ error: "authorization_pending" },
+			{ access_token: jwt({ sub: "u1", email: "dev@example.com" }), refresh_token: "refresh-1", expires_in: 0 },
+			{ access_token: "refreshed", expires_in: 3600 },
+		];
+		sandbox.stub(global, "fetch").callsFake(async (_url, init) => {
+			forms.push(Object.fromEntries(new URLSearchParams(String(init?.body))));
+			const body = responses.shift();
+			return new Response(JSON.stringify(body), { status: body && "error" in body ? 400 : 200 });
+		});
+		const oauth = new OAuthDeviceFlowProvider(createSecrets(), new ConfigManager(createSecrets()));
+
+		const session = await oauth.createSession(["profile:default", "openid", "offline_access"]);
+		assert.strictEqual(session.account.label, "dev@example.com");
+		assert.deepStrictEqual(forms[0], { client_id: "vscode", scope: "openid offline_access" });
+		assert.strictEqual(forms[1].grant_type, "urn:ietf:params:oauth:grant-type:device_code");
+		assert.strictEqual(forms[1].device_code, "dev-1");
+
+		// The token expired immediately, so listing the session refreshes it
+		const [current] = await oauth.getSessions(["profile:default"]);
+		assert.strictEqual(current.accessToken, "refreshed");
+		assert.deepStrictEqual(forms[3], { grant_type: "refresh_token", refresh_token: "refresh-1", client_id: "vscode" });
+		assert.deepStrictEqual(await oauth.getSessions(["profile:other"]), []);
+		oauth.dispose();
+	});
+});
@@ -23,7 +23,8 @@ suite("LiteLLM Client Unit Tests", () => {
 		const functionOutput = input.find((i) => i.type === "function_call_output");
 
 		assert.strictEqual(functionCall?.id, "fc_call1");
-		assert.strictEqual(functionOutput?.call_id, "fc_call1");
+		assert.strictEqual(functionCall?.call_id, "call1");
+		assert.strictEqual(functionOutput?.call_id, "call1");
 	});
 
 	test("transformToResponsesFormat skips tool outputs with no matching function call", () => {
@@ -52,4 +53,118 @@ suite("LiteLLM Client Unit Tests", () => {
 		assert.strictEqual(input[0].content, "hello world");
 		assert.strictEqual((input[0] as Record<string, unknown>).message, undefined);
 	});
+
+	test("transformToResponsesFormat keeps text, images and files of a message together", () => {
+		const body = client.transformToResponsesFormat({
+			model: "m",
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "What is in these?" },
+						{ type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+						{ type: "file", file: { filename: "attachment-1.pdf", file_data: "data:application/pdf;base64,BBBB" } },
+					],
+				},
+			],
+		});
+
+		assert.deepStrictEqual(body.input, [
+			{
+				type: "message",
+				role: "user",
+				content: [
+					{ type: "input_text", text: "What is in these?" },
+					{ type: "input_image", image_url: "data:image/png;base64,AAAA", detail: "auto" },
+					{ type: "input_file", filename: "attachment-1.pdf", file_data: "data:application/pdf;base64,BBBB" },
+				],
+			},
+		]);
+	});
+
+	test("transformToResponsesFormat sends response_format as text.format", () => {
+		const schema = { type: "object", properties: { ok: { type: "boolean" } } };
+		const body = client.transformToResponsesFormat({
+			model: "m",
+			messages: [{ role: "user", content: "hello" }],
+			response_format: { type: "json_schema", json_schema: { name: "result", schema, strict: true } },
+		});
+
+		assert.deepStrictEqual(body.text, { format: { type: "json_schema", name: "result", schema, strict: true } });
+	});
+
+	test("chat sends extra_body fields at the top level without overriding the request", async () => {
+		const originalFetch = global.fetch;
+		const bodies: Record<string, unknown>[] = [];
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (_url: string, init: RequestInit) => {
+			bodies.push(JSON.parse(init.body as string));
+			return new Response("data: [DONE]\n\n");
+		};
+		try {
+			const request = {
+				model: "m",
+				messages: [{ role: "user" as const, content: "hello" }],
+				stream: true,
+				extra_body: { seed: 7, metadata: { team: "core" }, model: "other" },
+			};
+			await client.chat(request, "chat");
+			await client.chat(request, "responses");
+
+			for (const body of bodies) {
+				assert.strictEqual(body.seed, 7);
+				assert.deepStrictEqual(body.metadata, { team: "core" });
+				assert.strictEqual(body.model, "m");
+				assert.strictEqual(body.extra_body, undefined);
+			}
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+
+	test("profile headers are sent, but cannot replace the client's own headers", async () => {
+		const originalFetch = global.fetch;
+		let headers: Record<string, string> = {};
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (_url: string, init: RequestInit) => {
+			headers = init.headers as Record<string, string>;
+			return new Response(JSON.stringify({ data: [] }));
+		};
+		try {
+			const tagged = new LiteLLMClient(
+				{ ...config, headers: { "x-litellm-tags": "team-a", Authorization: "Bearer other" } },
+				userAgent
+			);
+			await tagged.getModelInfo();
+			assert.strictEqual(headers["x-litellm-tags"], "team-a");
+			assert.strictEqual(headers.Authorization, "Bearer test-key");
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+
+	test("checkHealth distinguishes unreachable and rejected keys", async () => {
+		const originalFetch = global.fetch;
+		const statuses: Record<string, number> = {};
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (url: string) => {
+			const path = new URL(url).pathname;
+			if (!(path in statuses)) {
+				throw new TypeError("fetch failed");
+			}
+			return new Response("{}", { status: statuses[path] });
+		};
+		try {
+			assert.strictEqual(await client.checkHealth(), "unreachable");
+
+			statuses["/health/liveliness"] = 200;
+			statuses["/models"] = 401;
+			assert.strictEqual(await client.checkHealth(), "authFailed");
+
+			statuses["/models"] = 200;
+			assert.strictEqual(await client.checkHealth(), "reachable");
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
 });
@@ -1,5 +1,6 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
+import * as sinon from "sinon";
 import { ConfigManager } from "../../config/configManager";
 
 suite("ConfigManager Unit Tests", () => {
@@ -61,4 +62,130 @@ suite("ConfigManager Unit Tests", () => {
 		await manager.setConfig({ url: "" });
 		assert.strictEqual(await manager.isConfigured(), false);
 	});
+
+	test("getProfiles returns an implicit default profile backed by the legacy keys", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		secretsMap.set("litellm-connector.baseUrl", "http://legacy:4000");
+
+		const profiles = await manager.getProfiles();
+		assert.deepStrictEqual(profiles, [{ id: "default", name: "Default", enabled: true }]);
+		assert.strictEqual((await manager.getActiveProfile()).id, "default");
+		assert.strictEqual((await manager.getConfig()).url, "http://legacy:4000");
+	});
+
+	test("createProfile stores profile secrets separately and setActiveProfile switches getConfig", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		await manager.setConfig({ url: "http://localhost:4000", key: "sk-dev" });
+
+		const staging = await manager.createProfile("Staging", { url: "https://staging.example.com", key: "sk-stg" });
+		assert.strictEqual(staging.id, "staging");
+		assert.strictEqual((await manager.getConfig()).url, "http://localhost:4000");
+
+		await manager.setActiveProfile(staging.id);
+		const config = await manager.getConfig();
+		assert.strictEqual(config.url, "https://staging.example.com");
+		assert.strictEqual(config.key, "sk-stg");
+		assert.strictEqual((await manager.getProfileConfig("default")).key, "sk-dev");
+	});
+
+	test("createProfile and renameProfile reject duplicate or empty names", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		const prod = await manager.createProfile("Prod", { url: "https://prod.example.com" });
+
+		await assert.rejects(() => manager.createProfile("prod", { url: "x" }), /already exists/);
+		await assert.rejects(() => manager.createProfile("  ", { url: "x" }), /cannot be empty/);
+		await assert.rejects(() => manager.renameProfile(prod.id, "Default"), /already exists/);
+
+		await manager.renameProfile(prod.id, "Production");
+		const profiles = await manager.getProfiles();
+		assert.deepStrictEqual(
+			profiles.map((p) => [p.id, p.name]),
+			[
+				["default", "Default"],
+				["prod", "Production"],
+			]
+		);
+	});
+
+	test("deleteProfile removes secrets, resets the active profile and keeps the last profile", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		const staging = await manager.createProfile("Staging", { url: "https://staging.example.com", key: "sk-stg" });
+		await manager.setActiveProfile(staging.id);
+
+		await manager.deleteProfile(staging.id);
+		assert.strictEqual((await manager.getActiveProfile()).id, "default");
+		assert.strictEqual(secretsMap.has("litellm-connector.profiles.staging.baseUrl"), false);
+		assert.strictEqual(secretsMap.has("litellm-connector.profiles.staging.apiKey"), false);
+		await assert.rejects(() => manager.deleteProfile("default"), /only LiteLLM profile/);
+	});
+
+	test("getActiveProfile prefers the profile pinned by the workspace", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		const staging = await manager.createProfile("Staging", { url: "https://staging.example.com" });
+		const sandbox = sinon.createSandbox();
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => (key === "profile" ? "Staging" : undefined),
+		} as unknown as vscode.WorkspaceConfiguration);
+		try {
+			assert.strictEqual((await manager.getActiveProfile()).id, staging.id);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("getModelDefaults drops values of the wrong type", () => {
+		const manager = new ConfigManager(mockSecrets);
+		const sandbox = sinon.createSandbox();
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) =>
+				key === "modelDefaults"
+					? {
+							"claude-*": { temperature: 0.2, top_p: "high", stop: ["END", 1], extra_body: { seed: 7 } },
+							broken: "yes",
+						}
+					: undefined,
+		} as unknown as vscode.WorkspaceConfiguration);
+		try {
+			assert.deepStrictEqual(manager.getModelDefaults(), {
+				"claude-*": { temperature: 0.2, extra_body: { seed: 7 } },
+			});
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("getProfileConfig resolves the profile's headers and metadata", async () => {
+		const manager = new ConfigManager(mockSecrets);
+		const staging = await manager.createProfile("Staging", { url: "https://staging.example.com" });
+		const sandbox = sinon.createSandbox();
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) =>
+				key === "requestOptions"
+					? {
+							"*": { headers: { "x-litellm-tags": "team-a", "x-org": "${env:LITELLM_TEST_ORG}" } },
+							Staging: {
+								headers: { "x-litellm-tags": "team-a,${profile}" },
+								metadata: { workspace: "${workspaceName}", trace_id: "${traceId}", model: "${model}" },
+							},
+						}
+					: undefined,
+		} as unknown as vscode.WorkspaceConfiguration);
+		process.env.LITELLM_TEST_ORG = "acme";
+		try {
+			const config = await manager.getProfileConfig(staging.id, { model: "gpt-4o", traceId: "abc" });
+			assert.deepStrictEqual(config.headers, { "x-litellm-tags": "team-a,Staging", "x-org": "acme" });
+			assert.deepStrictEqual(config.metadata, {
+				workspace: vscode.workspace.name ?? "",
+				trace_id: "abc",
+				model: "gpt-4o",
+			});
+
+			const defaults = await manager.getProfileConfig("default");
+			assert.deepStrictEqual(defaults.headers, { "x-litellm-tags": "team-a", "x-org": "acme" });
+			assert.strictEqual(defaults.metadata, undefined);
+		} finally {
+			delete process.env.LITELLM_TEST_ORG;
+			sandbox.restore();
+		}
+	});
 });
@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { ConversationSummarizer } from "../../providers/conversationSummarizer";
+import type { OpenAIChatCompletionRequest } from "../../types";
+import { convertMessages } from "../../utils";
+
+const user = (text: string) => new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, text);
+const assistant = (text: string) =>
+	new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.Assistant, text);
+
+function completion(content: string): ReadableStream<Uint8Array> {
+	return new Response(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] })).body!;
+}
+
+suite("Conversation Summarizer Unit Tests", () => {
+	const client = new LiteLLMClient({ url: "http://localhost:4000", key: "test-key" }, "test-ua");
+	let sandbox: sinon.SinonSandbox;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	test("summarizes with a non-streaming request and caches the result", async () => {
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async () => completion("  The summary  "));
+		const summarizer = new ConversationSummarizer();
+		const dropped = [user("Fix the login bug"), assistant("Looking at auth.ts")];
+
+		assert.strictEqual(await summarizer.summarize(client, "cheap-model", dropped), "The summary");
+		assert.strictEqual(await summarizer.summarize(client, "cheap-model", [...dropped]), "The summary");
+
+		assert.strictEqual(chat.callCount, 1);
+		const request = chat.firstCall.args[0];
+		assert.strictEqual(request.model, "cheap-model");
+		assert.strictEqual(request.stream, false);
+		assert.match(request.messages[1].content as string, /User: Fix the login bug\n\nAssistant: Looking at auth.ts/);
+	});
+
+	test("extends an earlier summary with newly dropped messages", async () => {
+		const chat = sandbox
+			.stub(LiteLLMClient.prototype, "chat")
+			.onFirstCall()
+			.callsFake(async () => completion("First summary"))
+			.onSecondCall()
+			.callsFake(async () => completion("Second summary"));
+		const summarizer = new ConversationSummarizer();
+		const first = [user("Fix the login bug"), assistant("Looking at auth.ts")];
+
+		await summarizer.summarize(client, "cheap-model", first);
+		const summary = await summarizer.summarize(client, "cheap-model", [...first, user("Also add a test")]);
+
+		assert.strictEqual(summary, "Second summary");
+		const prompt = (chat.secondCall.args[0] as OpenAIChatCompletionRequest).messages[1].content as string;
+		assert.match(prompt, /First summary/);
+		assert.match(prompt, /User: Also add a test/);
+		assert.doesNotMatch(prompt, /login bug/);
+	});
+
+	test("withSummary adds the note after the leading system messages", () => {
+		const system = { role: 3, content: [new vscode.LanguageModelTextPart("Be brief")], name: undefined };
+		const messages = [system as unknown as vscode.LanguageModelChatRequestMessage, user("Next step?")];
+
+		const result = ConversationSummarizer.withSummary(messages, "Earlier work");
+
+		assert.strictEqual(result.length, 3);
+		assert.strictEqual(result[0], messages[0]);
+		assert.strictEqual(result[1].role as number, 3);
+		assert.match((result[1].content[0] as vscode.LanguageModelTextPart).value, /Earlier work/);
+		assert.strictEqual(result[2], messages[1]);
+	});
+
+	test("the system prompt and the summary both reach /responses instructions", () => {
+		const system = { role: 3, content: [new vscode.LanguageModelTextPart("Be brief")], name: undefined };
+		const messages = [system as unknown as vscode.LanguageModelChatRequestMessage, user("Next step?")];
+
+		const body = client.transformToResponsesFormat({
+			model: "gpt-5",
+			messages: convertMessages(ConversationSummarizer.withSummary(messages, "Earlier work")),
+		});
+
+		assert.match(body.instructions ?? "", /^Be brief\n\n[\s\S]*Earlier work/);
+		assert.deepStrictEqual(body.input, [{ type: "message", role: "user", content: "Next step?" }]);
+	});
+});
@@ -2,7 +2,9 @@ import * as assert from "assert";
 import * as vscode from "vscode";
 import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
 import { LiteLLMClient } from "../../adapters/litellmClient";
+import { ParameterRegistry } from "../../providers/parameterRegistry";
 import * as sinon from "sinon";
+import type { OpenAIChatCompletionRequest } from "../../types";
 
 suite("LiteLLM Error Handling Unit Tests", () => {
 	const mockSecrets: vscode.SecretStorage = {
@@ -95,6 +97,165 @@ suite("LiteLLM Error Handling Unit Tests", () => {
 		assert.ok(textParts.some((p) => p.value === "Success after retry"));
 	});
 
+	test("provideLanguageModelChatResponse strips only the rejected parameter on each retry", async () => {
+		const provider = new LiteLLMChatModelProvider(mockSecrets, userAgent);
+		const rejection = (message: string) =>
+			new Error(`LiteLLM API error: 400 Bad Request\n${JSON.stringify({ error: { message } })}`);
+		const rejections = [
+			rejection("Unsupported parameter: 'temperature' is not supported with this model."),
+			rejection("frequency_penalty: Extra inputs are not permitted"),
+		];
+		// The request body is changed in place between attempts, so each attempt is copied
+		const sent: OpenAIChatCompletionRequest[] = [];
+		sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async (request) => {
+			sent.push({ ...request });
+			const error = rejections.shift();
+			if (error) {
+				throw error;
+			}
+			return new ReadableStream({
+				start(controller) {
+					controller.close();
+				},
+			});
+		});
+
+		const model: vscode.LanguageModelChatInformation = {
+			id: "test-model",
+			name: "Test Model",
+			family: "litellm",
+			version: "1.0.0",
+			maxInputTokens: 4096,
+			maxOutputTokens: 1024,
+			capabilities: {},
+		};
+		await provider.provideLanguageModelChatResponse(
+			model,
+			[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")],
+			{ modelOptions: { top_p: 0.9 }, toolMode: vscode.LanguageModelChatToolMode.Auto },
+			{ report: () => {} },
+			new vscode.CancellationTokenSource().token
+		);
+
+		assert.strictEqual(sent.length, 3);
+		const [, second, third] = sent;
+		assert.strictEqual(second.temperature, undefined);
+		assert.strictEqual(second.frequency_penalty, 0.2);
+		assert.strictEqual(third.frequency_penalty, undefined);
+		assert.strictEqual(third.presence_penalty, 0.1);
+		assert.strictEqual(third.top_p, 0.9);
+	});
+
+	test("provideLanguageModelChatResponse leaves out parameters the model rejected before", async () => {
+		const provider = new LiteLLMChatModelProvider(mockSecrets, userAgent);
+		const errorText = JSON.stringify({
+			error: {
+				message:
+					"litellm.UnsupportedParamsError: openai does not support parameters: ['presence_penalty'], for model=test-model.",
+			},
+		});
+		const chatStub = sandbox.stub(LiteLLMClient.prototype, "chat");
+		chatStub.onFirstCall().rejects(new Error(`LiteLLM API error: 400 Bad Request\n${errorText}`));
+		chatStub.resolves(
+			new ReadableStream({
+				start(controller) {
+					controller.close();
+				},
+			})
+		);
+
+		const model: vscode.LanguageModelChatInformation = {
+			id: "test-model",
+			name: "Test Model",
+			family: "litellm",
+			version: "1.0.0",
+			maxInputTokens: 4096,
+			maxOutputTokens: 1024,
+			capabilities: {},
+		};
+		const messages = [new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")];
+		const options = { toolMode: vscode.LanguageModelChatToolMode.Auto };
+		const token = new vscode.CancellationTokenSource().token;
+
+		await provider.provideLanguageModelChatResponse(model, messages, options, { report: () => {} }, token);
+		const retried = chatStub.getCall(1).args[0];
+		assert.strictEqual(retried.presence_penalty, undefined);
+		assert.strictEqual(retried.temperature, 0.7);
+
+		await provider.provideLanguageModelChatResponse(model, messages, options, { report: () => {} }, token);
+		assert.strictEqual(chatStub.callCount, 3);
+		assert.strictEqual(chatStub.getCall(2).args[0].presence_penalty, undefined);
+		assert.strictEqual(chatStub.getCall(2).args[0].frequency_penalty, 0.2);
+	});
+
+	test("provideLanguageModelChatResponse does not remember parameters rejected only in combination", async () => {
+		const registry = new ParameterRegistry();
+		const provider = new LiteLLMChatModelProvider(mockSecrets, userAgent, undefined, undefined, registry);
+		const errorText = JSON.stringify({
+			error: { message: "`temperature` and `top_p` cannot both be specified for this model. Please use only one." },
+		});
+		const chatStub = sandbox.stub(LiteLLMClient.prototype, "chat");
+		chatStub.onFirstCall().rejects(new Error(`LiteLLM API error: 400 Bad Request\n${errorText}`));
+		chatStub.resolves(
+			new ReadableStream({
+				start(controller) {
+					controller.close();
+				},
+			})
+		);
+
+		const model: vscode.LanguageModelChatInformation = {
+			id: "test-model",
+			name: "Test Model",
+			family: "litellm",
+			version: "1.0.0",
+			maxInputTokens: 4096,
+			maxOutputTokens: 1024,
+			capabilities: {},
+		};
+		await provider.provideLanguageModelChatResponse(
+			model,
+			[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")],
+			{ modelOptions: { top_p: 0.9 }, toolMode: vscode.LanguageModelChatToolMode.Auto },
+			{ report: () => {} },
+			new vscode.CancellationTokenSource().token
+		);
+
+		assert.strictEqual(chatStub.callCount, 2);
+		assert.strictEqual(chatStub.getCall(1).args[0].top_p, undefined);
+		assert.strictEqual(chatStub.getCall(1).args[0].temperature, 0.7);
+		assert.deepStrictEqual(registry.learned("test-model"), []);
+	});
+
+	test("provideLanguageModelChatResponse does not retry a parameter error that names no parameter", async () => {
+		const provider = new LiteLLMChatModelProvider(mockSecrets, userAgent);
+		const errorText = JSON.stringify({ error: { message: "One of the parameters is not supported" } });
+		const chatStub = sandbox
+			.stub(LiteLLMClient.prototype, "chat")
+			.rejects(new Error(`LiteLLM API error: 400 Bad Request\n${errorText}`));
+
+		const model: vscode.LanguageModelChatInformation = {
+			id: "test-model",
+			name: "Test Model",
+			family: "litellm",
+			version: "1.0.0",
+			maxInputTokens: 4096,
+			maxOutputTokens: 1024,
+			capabilities: {},
+		};
+		await assert.rejects(
+			provider.provideLanguageModelChatResponse(
+				model,
+				[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")],
+				{ toolMode: vscode.LanguageModelChatToolMode.Auto },
+				{ report: () => {} },
+				new vscode.CancellationTokenSource().token
+			),
+			/not supported/
+		);
+		assert.strictEqual(chatStub.callCount, 1);
+	});
+
 	test("provideLanguageModelChatResponse handles unsupported parameter error from LiteLLM (when retry also fails)", async () => {
 		const provider = new LiteLLMChatModelProvider(mockSecrets, userAgent);
 
@@ -0,0 +1,138 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { deflateSync } from "zlib";
+import {
+	fitImage,
+	getImageLimits,
+	OMITTED_IMAGE_TEXT,
+	prepareImages,
+	resizeImage,
+} from "../../adapters/imageProcessor";
+import { getImageDimensions, RawImage } from "../../adapters/imageUtils";
+import { decodeJpeg, encodeJpeg } from "../../adapters/jpegCodec";
+import { decodePng, encodePng } from "../../adapters/pngCodec";
+
+/** Smooth gradient with an optional alpha ramp. */
+function gradient(width: number, height: number, alpha = false): RawImage {
+	const data = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			data[i] = Math.floor((x / width) * 255);
+			data[i + 1] = Math.floor((y / height) * 255);
+			data[i + 2] = 128;
+			data[i + 3] = alpha ? Math.floor((x / width) * 255) : 255;
+		}
+	}
+	return { width, height, data };
+}
+
+/** Deterministic noise, which compresses badly as PNG. */
+function noise(width: number, height: number): RawImage {
+	const data = new Uint8Array(width * height * 4);
+	let seed = 7;
+	for (let i = 0; i < data.length; i++) {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+		data[i] = i % 4 === 3 ? 255 : seed >> 16;
+	}
+	return { width, height, data };
+}
+
+suite("Image Processor Unit Tests", () => {
+	test("PNG encoding round-trips opaque and transparent pixels", () => {
+		for (const image of [gradient(37, 21), gradient(16, 9, true)]) {
+			const decoded = decodePng(encodePng(image));
+			assert.ok(decoded);
+			assert.strictEqual(decoded.width, image.width);
+			assert.strictEqual(decoded.height, image.height);
+			assert.deepStrictEqual(decoded.data, image.data);
+		}
+	});
+
+	test("JPEG encoding round-trips within lossy tolerance", () => {
+		const image = gradient(45, 30);
+		const encoded = encodeJpeg(image, 90);
+		assert.deepStrictEqual(getImageDimensions(encoded), { width: 45, height: 30 });
+
+		const decoded = decodeJpeg(encoded);
+		assert.ok(decoded);
+		let maxError = 0;
+		for (let i = 0; i < image.data.length; i++) {
+			maxError = Math.max(maxError, Math.abs(image.data[i] - decoded.data[i]));
+		}
+		assert.ok(maxError <= 16, `max error ${maxError}`);
+	});
+
+	test("images too large to decode are left undecoded", () => {
+		const png = encodePng(gradient(10, 10));
+		const hugePng = Uint8Array.from(png);
+		new DataView(hugePng.buffer).setUint32(16, 30000);
+		new DataView(hugePng.buffer).setUint32(20, 30000);
+		assert.strictEqual(decodePng(hugePng), undefined);
+
+		// Image data that inflates to far more than the declared 10x10 pixels
+		const bomb = deflateSync(Buffer.alloc(20_000_000));
+		const idat = new Uint8Array(12 + bomb.length);
+		new DataView(idat.buffer).setUint32(0, bomb.length);
+		idat.set(new TextEncoder().encode("IDAT"), 4);
+		idat.set(bomb, 8);
+		const iend = png.subarray(png.length - 12);
+		assert.strictEqual(decodePng(new Uint8Array([...png.subarray(0, 33), ...idat, ...iend])), undefined);
+
+		const jpeg = Uint8Array.from(encodeJpeg(gradient(16, 16), 80));
+		const sof = jpeg.findIndex((byte, i) => byte === 0xff && jpeg[i + 1] === 0xc0);
+		new DataView(jpeg.buffer).setUint16(sof + 5, 60000);
+		new DataView(jpeg.buffer).setUint16(sof + 7, 60000);
+		assert.strictEqual(decodeJpeg(jpeg), undefined);
+	});
+
+	test("resizeImage averages pixels", () => {
+		const image: RawImage = {
+			width: 2,
+			height: 1,
+			data: Uint8Array.from([0, 0, 0, 255, 200, 100, 50, 255]),
+		};
+		assert.deepStrictEqual(resizeImage(image, 1, 1).data, Uint8Array.from([100, 50, 25, 255]));
+	});
+
+	test("fitImage keeps images that fit and downscales oversized ones", () => {
+		const small = encodePng(gradient(40, 30));
+		assert.strictEqual(fitImage(small, "image/png", { maxBytes: 1_000_000, maxDimension: 100 })?.data, small);
+
+		const large = encodePng(gradient(400, 200));
+		const fitted = fitImage(large, "image/png", { maxBytes: 1_000_000, maxDimension: 100 });
+		assert.strictEqual(fitted?.mimeType, "image/png");
+		assert.deepStrictEqual(getImageDimensions(fitted.data), { width: 100, height: 50 });
+	});
+
+	test("fitImage re-encodes as JPEG when the PNG stays too large", () => {
+		const png = encodePng(noise(120, 80));
+		const limits = { maxBytes: Math.floor(png.length / 3), maxDimension: 2048 };
+		const fitted = fitImage(png, "image/png", limits);
+		assert.strictEqual(fitted?.mimeType, "image/jpeg");
+		assert.ok(fitted.data.length <= limits.maxBytes);
+
+		assert.strictEqual(fitImage(new Uint8Array(5000), "image/webp", { maxBytes: 100, maxDimension: 100 }), undefined);
+	});
+
+	test("prepareImages keeps only the most recent images", () => {
+		const image = () => new vscode.LanguageModelDataPart(encodePng(gradient(8, 8)), "image/png");
+		const messages: vscode.LanguageModelChatMessage[] = [
+			{ role: vscode.LanguageModelChatMessageRole.User, content: [image(), image()], name: undefined },
+			{ role: vscode.LanguageModelChatMessageRole.User, content: [image()], name: undefined },
+		];
+
+		const prepared = prepareImages(messages, getImageLimits("gpt-4o"), 2);
+		assert.strictEqual(prepared[1], messages[1]);
+		const first = prepared[0].content;
+		assert.ok(first[0] instanceof vscode.LanguageModelTextPart);
+		assert.strictEqual(first[0].value, OMITTED_IMAGE_TEXT);
+		assert.strictEqual(first[1], messages[0].content[1]);
+	});
+
+	test("getImageLimits picks limits by provider", () => {
+		assert.strictEqual(getImageLimits("claude-sonnet-4").maxDimension, 1568);
+		assert.strictEqual(getImageLimits("my-model", { litellm_provider: "vertex_ai" }).maxDimension, 3072);
+		assert.strictEqual(getImageLimits("gpt-4o").maxDimension, 2048);
+	});
+});
@@ -0,0 +1,121 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { initializeLogger, redact } from "../../logger";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { StreamingSession } from "../../providers/streamingSession";
+
+suite("Logger Unit Tests", () => {
+	let sandbox: sinon.SinonSandbox;
+	let lines: { level: string; message: string }[];
+	let logLevel: vscode.LogLevel;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+		lines = [];
+		logLevel = vscode.LogLevel.Info;
+		const record = (level: string) => (message: string) => lines.push({ level, message });
+		sandbox.stub(vscode.window, "createOutputChannel").returns({
+			get logLevel() {
+				return logLevel;
+			},
+			trace: record("trace"),
+			debug: record("debug"),
+			info: record("info"),
+			warn: record("warn"),
+			error: record("error"),
+		} as unknown as vscode.LogOutputChannel);
+		initializeLogger();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+		initializeLogger();
+	});
+
+	test("redact hides credentials and base64 payloads", () => {
+		const body = {
+			model: "gpt-4o",
+			max_tokens: 100,
+			api_key: "sk-secret",
+			messages: [
+				{
+					role: "user",
+					content: [{ type: "image_url", image_url: { url: `data:image/png;base64,${"A".repeat(400)}` } }],
+				},
+			],
+		};
+		assert.deepStrictEqual(redact(body), {
+			model: "gpt-4o",
+			max_tokens: 100,
+			api_key: "<redacted>",
+			messages: [
+				{
+					role: "user",
+					content: [{ type: "image_url", image_url: { url: "data:image/png;base64,<300 bytes>" } }],
+				},
+			],
+		});
+		assert.strictEqual(body.api_key, "sk-secret");
+	});
+
+	test("redact shrinks raw base64 audio and file payloads", () => {
+		const content = [
+			{ type: "input_audio", input_audio: { data: "UklGR".padEnd(800, "A"), format: "wav" } },
+			{ type: "file", file: { filename: "report.pdf", file_data: "JVBER".padEnd(400, "A") } },
+			{ type: "text", text: "data" },
+		];
+		assert.deepStrictEqual(redact({ data: "short", content }), {
+			data: "short",
+			content: [
+				{ type: "input_audio", input_audio: { data: "<600 bytes>", format: "wav" } },
+				{ type: "file", file: { filename: "report.pdf", file_data: "<300 bytes>" } },
+				{ type: "text", text: "data" },
+			],
+		});
+	});
+
+	test("raw SSE lines are traced and unparseable chunks are reported", async () => {
+		const session = new StreamingSession({ report: () => {} });
+		await session.processLine("data: {not json");
+		assert.ok(lines.some((l) => l.level === "warn" && l.message.includes("unparseable stream chunk")));
+		assert.ok(lines.some((l) => l.level === "trace" && l.message === "SSE: data: {not json"));
+	});
+
+	test("rate limit back-offs are logged", async () => {
+		const client = new LiteLLMClient({ url: "http://localhost:4000" }, "test-ua");
+		const originalFetch = global.fetch;
+		let calls = 0;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async () => {
+			calls++;
+			return new Response("", { status: calls === 1 ? 429 : 200 });
+		};
+		try {
+			const response = await client.fetchWithRateLimit("http://localhost:4000/x", {}, { initialDelayMs: 1 });
+			assert.strictEqual(response.status, 200);
+			assert.ok(lines.some((l) => l.level === "warn" && l.message.includes("rate limited (429)")));
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+
+	test("request bodies are only traced at trace level", async () => {
+		const client = new LiteLLMClient({ url: "http://localhost:4000", key: "sk-secret" }, "test-ua");
+		const originalFetch = global.fetch;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async () => new Response("data: [DONE]\n");
+		const request = { model: "m", messages: [{ role: "user" as const, content: "hi" }], stream: true };
+		try {
+			await client.chat(request, "chat");
+			assert.ok(!lines.some((l) => l.message.startsWith("Request body:")));
+
+			logLevel = vscode.LogLevel.Trace;
+			await client.chat(request, "chat");
+			const traced = lines.find((l) => l.message.startsWith("Request body:"));
+			assert.ok(traced?.message.includes('"stream_options":{"include_usage":true}'));
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { registerManageProfilesCommand } from "../../commands/manageProfiles";
+import { ConfigManager } from "../../config/configManager";
+
+/** Quick pick fake that selects the top-level action with the given id. */
+function pickAction(action: string) {
+	return async (items: unknown) =>
+		(items as { action: string }[]).find((i) => i.action === action) as unknown as vscode.QuickPickItem;
+}
+
+/** Quick pick fake that selects the profile with the given id. */
+function pickProfile(id: string) {
+	return async (items: unknown) =>
+		(items as { profile: { id: string } }[]).find((i) => i.profile.id === id) as unknown as vscode.QuickPickItem;
+}
+
+suite("ManageProfiles Command Unit Tests", () => {
+	let sandbox: sinon.SinonSandbox;
+	let mockConfigManager: sinon.SinonStubbedInstance<ConfigManager>;
+	let mockContext: vscode.ExtensionContext;
+	let commandHandler: (() => Promise<void>) | undefined;
+
+	const profiles = [
+		{ id: "default", name: "Default", enabled: true },
+		{ id: "staging", name: "Staging", enabled: true },
+	];
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+		mockConfigManager = sandbox.createStubInstance(ConfigManager);
+		mockConfigManager.getProfiles.resolves(profiles);
+		mockConfigManager.getActiveProfile.resolves(profiles[0]);
+		mockContext = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+		commandHandler = undefined;
+		sandbox.stub(vscode.commands, "registerCommand").callsFake((id, handler) => {
+			if (id === "litellm-connector.manageProfiles") {
+				commandHandler = handler as () => Promise<void>;
+			}
+			return { dispose: () => {} } as vscode.Disposable;
+		});
+		registerManageProfilesCommand(mockContext, mockConfigManager as unknown as ConfigManager);
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	test("creates a profile from the entered name, URL and key", async () => {
+		mockConfigManager.createProfile.resolves({ id: "prod", name: "Prod", enabled: true });
+		const quickPick = sandbox.stub(vscode.window, "showQuickPick");
+		quickPick.onFirstCall().callsFake(pickAction("create"));
+		const inputBox = sandbox.stub(vscode.window, "showInputBox");
+		inputBox.onFirstCall().resolves("Prod");
+		inputBox.onSecondCall().resolves(" https://prod.example.com ");
+		inputBox.onThirdCall().resolves("");
+		sandbox.stub(vscode.window, "showInformationMessage");
+
+		await commandHandler?.();
+
+		assert.strictEqual(
+			mockConfigManager.createProfile.calledWith("Prod", { url: "https://prod.example.com", key: undefined }),
+			true
+		);
+	});
+
+	test("switches the active profile", async () => {
+		const quickPick = sandbox.stub(vscode.window, "showQuickPick");
+		quickPick.onFirstCall().callsFake(pickAction("activate"));
+		quickPick.onSecondCall().callsFake(pickProfile("staging"));
+		sandbox.stub(vscode.window, "showInformationMessage");
+
+		await commandHandler?.();
+
+		assert.strictEqual(mockConfigManager.setActiveProfile.calledWith("staging"), true);
+	});
+
+	test("reports errors from the config manager", async () => {
+		mockConfigManager.deleteProfile.rejects(new Error("Cannot delete the only LiteLLM profile."));
+		const quickPick = sandbox.stub(vscode.window, "showQuickPick");
+		quickPick.onFirstCall().callsFake(pickAction("delete"));
+		quickPick.onSecondCall().callsFake(pickProfile("default"));
+		sandbox.stub(vscode.window, "showWarningMessage").resolves("Delete" as unknown as vscode.MessageItem);
+		const showError = sandbox.stub(vscode.window, "showErrorMessage");
+
+		await commandHandler?.();
+
+		assert.strictEqual(showError.calledWith("Cannot delete the only LiteLLM profile."), true);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from "assert";
+import { resolveGenerationSettings } from "../../providers/modelDefaults";
+
+suite("Model Defaults Unit Tests", () => {
+	const settings = {
+		"*": { max_tokens: 4096, extra_body: { user: "me", metadata: { team: "core" } } },
+		"claude-*": { temperature: 0.2, stop: ["END"], extra_body: { metadata: { team: "ai" } } },
+	};
+
+	test("built-in defaults apply when nothing else is set", () => {
+		assert.deepStrictEqual(resolveGenerationSettings("gpt-4o", {}, undefined), {
+			temperature: 0.7,
+			frequency_penalty: 0.2,
+			presence_penalty: 0.1,
+		});
+	});
+
+	test("matching settings apply in order and caller options win", () => {
+		assert.deepStrictEqual(resolveGenerationSettings("claude-sonnet", settings, { temperature: 1, top_p: 0.5 }), {
+			temperature: 1,
+			top_p: 0.5,
+			frequency_penalty: 0.2,
+			presence_penalty: 0.1,
+			max_tokens: 4096,
+			stop: ["END"],
+			extra_body: { user: "me", metadata: { team: "ai" } },
+		});
+
+		const gpt = resolveGenerationSettings("gpt-4o", settings, { stop: "", max_tokens: "lots" });
+		assert.strictEqual(gpt.temperature, 0.7);
+		assert.strictEqual(gpt.max_tokens, 4096);
+		assert.strictEqual(gpt.stop, undefined);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import type { LiteLLMModelEntry, ModelFilterSettings } from "../../types";
+import { filterModelEntries, globToRegExp } from "../../providers/modelFilter";
+import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+
+const DEFAULTS: ModelFilterSettings = { include: [], exclude: [], modes: ["chat", "responses"], tags: [], aliases: {} };
+
+function entry(
+	name: string,
+	mode?: string,
+	extra: { key?: string; tags?: string[]; maxInput?: number } = {}
+): LiteLLMModelEntry {
+	return {
+		model_name: name,
+		litellm_params: extra.tags ? { tags: extra.tags } : undefined,
+		model_info: { key: extra.key ?? name, mode, max_input_tokens: extra.maxInput },
+	};
+}
+
+suite("Model Filter Unit Tests", () => {
+	test("globToRegExp supports wildcards and escapes the rest", () => {
+		assert.ok(globToRegExp("gpt-*").test("GPT-4o"));
+		assert.ok(globToRegExp("o?-mini").test("o3-mini"));
+		assert.ok(!globToRegExp("gpt-4.1").test("gpt-401"));
+		assert.ok(!globToRegExp("claude").test("claude-3"));
+	});
+
+	test("lists chat and responses models by default", () => {
+		const names = filterModelEntries(
+			[
+				entry("gpt-4o", "chat"),
+				entry("codex", "responses"),
+				entry("legacy"),
+				entry("text-embedding-3", "embedding"),
+				entry("dall-e-3", "image_generation"),
+				entry("tts-1", "audio_speech"),
+			],
+			DEFAULTS
+		).map((e) => e.model_name);
+
+		assert.deepStrictEqual(names, ["gpt-4o", "codex", "legacy"]);
+	});
+
+	test("applies include, exclude and tag filters", () => {
+		const entries = [
+			entry("gpt-4o", "chat", { tags: ["team-a"] }),
+			entry("gpt-4o-mini", "chat", { tags: ["team-b"] }),
+			entry("claude-sonnet", "chat", { tags: ["team-a"] }),
+		];
+
+		const included = filterModelEntries(entries, { ...DEFAULTS, include: ["gpt-*"], exclude: ["*-mini"] });
+		assert.deepStrictEqual(
+			included.map((e) => e.model_name),
+			["gpt-4o"]
+		);
+
+		const tagged = filterModelEntries(entries, { ...DEFAULTS, tags: ["team-a"] });
+		assert.deepStrictEqual(
+			tagged.map((e) => e.model_name),
+			["gpt-4o", "claude-sonnet"]
+		);
+	});
+
+	test("collapses load-balanced deployments into one entry", () => {
+		const collapsed = filterModelEntries(
+			[
+				entry("gpt-4o", "chat", { key: "azure/gpt-4o-eu", maxInput: 128000 }),
+				entry("gpt-4o", "chat", { key: "azure/gpt-4o-us", maxInput: 64000 }),
+				entry("claude", "chat"),
+			],
+			DEFAULTS
+		);
+
+		assert.strictEqual(collapsed.length, 2);
+		assert.strictEqual(collapsed[0].model_info?.key, "gpt-4o");
+		assert.strictEqual(collapsed[0].model_info?.max_input_tokens, 64000);
+	});
+
+	test("provider lists filtered models under their aliases", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		const settings: Record<string, unknown> = {
+			"models.exclude": ["*embedding*"],
+			"models.aliases": { "gpt-4o": "GPT-4o (shared)" },
+		};
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => settings[key],
+		} as unknown as vscode.WorkspaceConfiguration);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [entry("gpt-4o", "chat"), entry("gpt-4o", "chat"), entry("my-embedding", "chat")],
+		});
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, "test-ua");
+			const infos = await provider.provideLanguageModelChatInformation(
+				{ silent: true },
+				new vscode.CancellationTokenSource().token
+			);
+			assert.deepStrictEqual(
+				infos.map((i) => [i.id, i.name]),
+				[["gpt-4o", "GPT-4o (shared)"]]
+			);
+		} finally {
+			sandbox.restore();
+		}
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+import { ModelListCache } from "../../providers/modelListCache";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { createMemento } from "../fixtures/memento";
+
+suite("Model List Cache Unit Tests", () => {
+	const url = "http://localhost:4000";
+	const token = new vscode.CancellationTokenSource().token;
+	const secrets = {
+		get: async (key: string) => (key === "litellm-connector.baseUrl" ? url : undefined),
+		store: async () => {},
+		delete: async () => {},
+		onDidChange: (_listener: unknown) => ({ dispose() {} }),
+	} as unknown as vscode.SecretStorage;
+	const entry = (name: string) => ({ model_name: name, model_info: { key: name } });
+
+	let sandbox: sinon.SinonSandbox;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	function expireImmediately(): void {
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => (key === "modelCacheTtlMinutes" ? 0 : undefined),
+		} as unknown as vscode.WorkspaceConfiguration);
+	}
+
+	test("cache entries are tied to the profile URL", async () => {
+		const cache = new ModelListCache(createMemento());
+		await cache.set("default", url, [entry("a")], 1000);
+
+		assert.deepStrictEqual(cache.get("default", url), { entries: [entry("a")], fetchedAt: 1000 });
+		assert.strictEqual(cache.get("default", "http://other:4000"), undefined);
+		assert.strictEqual(cache.get("prod", url), undefined);
+	});
+
+	test("fresh cached models are served without contacting the proxy", async () => {
+		const cache = new ModelListCache(createMemento());
+		await cache.set("default", url, [entry("cached")]);
+		const getModelInfo = sandbox.stub(LiteLLMClient.prototype, "getModelInfo").rejects(new Error("down"));
+
+		const provider = new LiteLLMChatModelProvider(secrets, "test-ua", undefined, cache);
+		const infos = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+
+		assert.deepStrictEqual(
+			infos.map((i) => i.id),
+			["cached"]
+		);
+		assert.strictEqual(getModelInfo.callCount, 0);
+	});
+
+	test("stale models are served while a background refresh runs and signals changes", async () => {
+		expireImmediately();
+		const cache = new ModelListCache(createMemento());
+		await cache.set("default", url, [entry("old")]);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({ data: [entry("old"), entry("new")] });
+
+		const provider = new LiteLLMChatModelProvider(secrets, "test-ua", undefined, cache);
+		const changed = new Promise<void>((resolve) => provider.onDidChangeLanguageModelChatInformation(resolve));
+		const infos = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+		assert.deepStrictEqual(
+			infos.map((i) => i.id),
+			["old"]
+		);
+
+		await changed;
+		const refreshed = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+		assert.deepStrictEqual(
+			refreshed.map((i) => i.id),
+			["old", "new"]
+		);
+	});
+
+	test("unchanged background refreshes do not fire change events", async () => {
+		expireImmediately();
+		const cache = new ModelListCache(createMemento());
+		await cache.set("default", url, [entry("same")]);
+		const getModelInfo = sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({ data: [entry("same")] });
+
+		const provider = new LiteLLMChatModelProvider(secrets, "test-ua", undefined, cache);
+		let changes = 0;
+		provider.onDidChangeLanguageModelChatInformation(() => changes++);
+		await provider.provideLanguageModelChatInformation({ silent: true }, token);
+		assert.strictEqual(getModelInfo.callCount, 1);
+		await new Promise((r) => setTimeout(r, 10));
+
+		assert.strictEqual(changes, 0);
+	});
+
+	test("refreshModels ignores the TTL and updates the cache", async () => {
+		const cache = new ModelListCache(createMemento());
+		await cache.set("default", url, [entry("old")]);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({ data: [entry("new")] });
+
+		const provider = new LiteLLMChatModelProvider(secrets, "test-ua", undefined, cache);
+		let changes = 0;
+		provider.onDidChangeLanguageModelChatInformation(() => changes++);
+		await provider.refreshModels();
+
+		assert.strictEqual(changes, 1);
+		assert.deepStrictEqual(cache.get("default", url)?.entries, [entry("new")]);
+	});
+});
@@ -0,0 +1,87 @@
+import * as assert from "assert";
+import { conflictingParameters, ParameterRegistry, parseRejectedParameters } from "../../providers/parameterRegistry";
+import { createMemento } from "../fixtures/memento";
+
+suite("Parameter Registry Unit Tests", () => {
+	test("bundled rules win over model info, and overrides win over both", () => {
+		const registry = new ParameterRegistry();
+		const modelInfo = { supported_openai_params: ["temperature", "top_p"] };
+
+		assert.strictEqual(registry.isSupported("temperature", "o1-mini", modelInfo), false);
+		assert.strictEqual(registry.isSupported("temperature", "gpt-4o", modelInfo), true);
+		assert.strictEqual(registry.isSupported("stop", "gpt-4o", modelInfo), false);
+		assert.strictEqual(registry.isSupported("stop", "gpt-4o", undefined), true);
+
+		const overrides = { "o1-*": { temperature: true }, "gpt-*": { top_p: false } };
+		assert.strictEqual(registry.isSupported("temperature", "o1-mini", modelInfo, overrides), true);
+		assert.strictEqual(registry.isSupported("top_p", "gpt-4o", modelInfo, overrides), false);
+	});
+
+	test("learned parameters are persisted per model", async () => {
+		const state = createMemento();
+		await new ParameterRegistry(state).learn("my-model", ["temperature"]);
+
+		const registry = new ParameterRegistry(state);
+		assert.strictEqual(registry.isSupported("temperature", "my-model", undefined), false);
+		assert.strictEqual(registry.isSupported("temperature", "other-model", undefined), true);
+		assert.strictEqual(
+			registry.isSupported("temperature", "my-model", undefined, { "my-*": { temperature: true } }),
+			true
+		);
+
+		await registry.learn("my-model", ["temperature", "top_p"]);
+		assert.deepStrictEqual(registry.learned("my-model"), ["temperature", "top_p"]);
+	});
+
+	test("parseRejectedParameters reads LiteLLM and OpenAI error messages", () => {
+		const sent = ["temperature", "top_p", "presence_penalty"];
+		assert.deepStrictEqual(
+			parseRejectedParameters(
+				"litellm.UnsupportedParamsError: openai does not support parameters: ['top_p', 'presence_penalty'], for model=o1",
+				sent
+			),
+			["top_p", "presence_penalty"]
+		);
+		assert.deepStrictEqual(
+			parseRejectedParameters("Unsupported parameter: 'temperature' is not supported with this model.", sent),
+			["temperature"]
+		);
+		assert.deepStrictEqual(parseRejectedParameters("top_p is not supported for this model", sent), ["top_p"]);
+		assert.strictEqual(parseRejectedParameters("This parameter is not supported", sent), undefined);
+		assert.strictEqual(parseRejectedParameters("Unsupported parameter: 'logprobs'", sent), undefined);
+		assert.strictEqual(parseRejectedParameters("Rate limit exceeded", sent), undefined);
+	});
+
+	test("parseRejectedParameters reads Anthropic errors wrapped by LiteLLM", () => {
+		const sent = ["temperature", "top_p", "stop"];
+		const wrapped = (message: string) =>
+			JSON.stringify({
+				error: {
+					message: `litellm.BadRequestError: AnthropicException - ${JSON.stringify({
+						type: "error",
+						error: { type: "invalid_request_error", message },
+					})}`,
+				},
+			});
+		assert.deepStrictEqual(parseRejectedParameters(wrapped("stop: Extra inputs are not permitted"), sent), ["stop"]);
+		assert.deepStrictEqual(
+			parseRejectedParameters(
+				wrapped("`temperature` and `top_p` cannot both be specified for this model. Please use only one."),
+				sent
+			),
+			["top_p"]
+		);
+		assert.deepStrictEqual(
+			conflictingParameters(wrapped("`temperature` and `top_p` cannot both be specified for this model.")),
+			["top_p"]
+		);
+		assert.deepStrictEqual(conflictingParameters(wrapped("stop: Extra inputs are not permitted")), []);
+		assert.deepStrictEqual(
+			parseRejectedParameters(
+				JSON.stringify({ error: { message: "Unsupported value", param: "temperature", code: "unsupported_value" } }),
+				sent
+			),
+			["temperature"]
+		);
+	});
+});
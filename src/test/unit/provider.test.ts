@@ -1,6 +1,10 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
+import * as sinon from "sinon";
 import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import type { OpenAIChatCompletionRequest } from "../../types";
+import type { UsageTracker } from "../../usage/usageTracker";
 
 suite("LiteLLM Provider Unit Tests", () => {
 	const mockSecrets: vscode.SecretStorage = {
@@ -130,4 +134,375 @@ suite("LiteLLM Provider Unit Tests", () => {
 		assert.strictEqual(requestBody.presence_penalty, undefined);
 		assert.strictEqual(requestBody.max_tokens, 1000);
 	});
+
+	test("provideLanguageModelChatInformation lists all enabled profiles with qualified names", async () => {
+		const sandbox = sinon.createSandbox();
+		const secretsMap = new Map<string, string>([
+			["litellm-connector.baseUrl", "http://dev:4000"],
+			[
+				"litellm-connector.profiles",
+				JSON.stringify([
+					{ id: "default", name: "Dev", enabled: true },
+					{ id: "prod", name: "Prod", enabled: true },
+					{ id: "old", name: "Old", enabled: false },
+				]),
+			],
+			["litellm-connector.profiles.prod.baseUrl", "https://prod.example.com"],
+			["litellm-connector.profiles.old.baseUrl", "https://old.example.com"],
+		]);
+		const secrets = {
+			get: async (key: string) => secretsMap.get(key),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => (key === "modelSource" ? "allEnabledProfiles" : undefined),
+		} as unknown as vscode.WorkspaceConfiguration);
+		const getModelInfo = sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [{ model_name: "gpt-4o", model_info: { key: "gpt-4o", mode: "chat" } }],
+		});
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").resolves(
+			new ReadableStream({
+				start(controller) {
+					controller.close();
+				},
+			})
+		);
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent);
+			const infos = await provider.provideLanguageModelChatInformation(
+				{ silent: true },
+				new vscode.CancellationTokenSource().token
+			);
+
+			assert.strictEqual(getModelInfo.callCount, 2);
+			assert.deepStrictEqual(
+				infos.map((i) => [i.id, i.name]),
+				[
+					["default/gpt-4o", "gpt-4o (Dev)"],
+					["prod/gpt-4o", "gpt-4o (Prod)"],
+				]
+			);
+
+			await provider.provideLanguageModelChatResponse(
+				infos[1],
+				[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")],
+				{ toolMode: vscode.LanguageModelChatToolMode.Auto },
+				{ report: () => {} },
+				new vscode.CancellationTokenSource().token
+			);
+			assert.strictEqual(chat.firstCall.args[0].model, "gpt-4o");
+			const client = chat.firstCall.thisValue as unknown as { config: { url: string } };
+			assert.strictEqual(client.config.url, "https://prod.example.com");
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("reasoning options are only sent to models that support them", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => ({ reasoningEffort: "high", thinkingBudget: 2048 })[key],
+		} as unknown as vscode.WorkspaceConfiguration);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [
+				{
+					model_name: "claude-sonnet",
+					model_info: {
+						key: "claude-sonnet",
+						supported_openai_params: ["temperature", "reasoning_effort", "thinking"],
+					},
+				},
+				{ model_name: "gpt-4o", model_info: { key: "gpt-4o", supported_openai_params: ["temperature"] } },
+			],
+		});
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(
+			async () =>
+				new ReadableStream({
+					start(controller) {
+						controller.close();
+					},
+				})
+		);
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent);
+			const token = new vscode.CancellationTokenSource().token;
+			const [claude, gpt] = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+			const messages = [new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hi")];
+			const options = { toolMode: vscode.LanguageModelChatToolMode.Auto };
+
+			await provider.provideLanguageModelChatResponse(claude, messages, options, { report: () => {} }, token);
+			await provider.provideLanguageModelChatResponse(gpt, messages, options, { report: () => {} }, token);
+
+			const claudeBody = chat.firstCall.args[0];
+			assert.strictEqual(claudeBody.reasoning_effort, "high");
+			assert.deepStrictEqual(claudeBody.thinking, { type: "enabled", budget_tokens: 2048 });
+			assert.strictEqual(claudeBody.temperature, undefined);
+
+			const gptBody = chat.secondCall.args[0];
+			assert.strictEqual(gptBody.reasoning_effort, undefined);
+			assert.strictEqual(gptBody.thinking, undefined);
+			assert.strictEqual(gptBody.temperature, 0.7);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("adds prompt cache breakpoints for Claude models that support caching", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: () => undefined,
+		} as unknown as vscode.WorkspaceConfiguration);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [
+				{
+					model_name: "claude-sonnet",
+					model_info: { key: "claude-sonnet", supports_prompt_caching: true, supports_function_calling: true },
+				},
+			],
+		});
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(
+			async () =>
+				new ReadableStream({
+					start(controller) {
+						controller.close();
+					},
+				})
+		);
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent);
+			const token = new vscode.CancellationTokenSource().token;
+			const [claude] = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+			const system = { role: 3, content: [new vscode.LanguageModelTextPart("Be brief")], name: undefined };
+			const messages = [
+				system as unknown as vscode.LanguageModelChatRequestMessage,
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hi"),
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.Assistant, "Hello"),
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Next"),
+			];
+			const options = {
+				toolMode: vscode.LanguageModelChatToolMode.Auto,
+				tools: [
+					{ name: "read", description: "Read a file", inputSchema: { type: "object" } },
+					{ name: "write", description: "Write a file", inputSchema: { type: "object" } },
+				],
+			};
+
+			await provider.provideLanguageModelChatResponse(claude, messages, options, { report: () => {} }, token);
+
+			const body = chat.firstCall.args[0] as OpenAIChatCompletionRequest;
+			const ephemeral = { type: "ephemeral" };
+			assert.deepStrictEqual(body.messages[0].content, [{ type: "text", text: "Be brief", cache_control: ephemeral }]);
+			assert.strictEqual(body.messages[1].content, "Hi");
+			assert.deepStrictEqual(body.messages[2].content, [{ type: "text", text: "Hello", cache_control: ephemeral }]);
+			assert.strictEqual(body.messages[3].content, "Next");
+			assert.strictEqual(body.tools?.[0].cache_control, undefined);
+			assert.deepStrictEqual(body.tools?.[1].cache_control, ephemeral);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("records stream usage with the response cost header", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		const record = sandbox.stub().resolves();
+		const usageTracker = { record } as unknown as UsageTracker;
+		sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async (_request, _mode, _token, options) => {
+			options?.onHeaders?.(new Headers({ "x-litellm-response-cost": "0.0125" }));
+			const usage = { prompt_tokens: 40, completion_tokens: 2 };
+			return new ReadableStream({
+				start(controller) {
+					controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ choices: [], usage })}\n`));
+					controller.close();
+				},
+			});
+		});
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent, usageTracker);
+			const model: vscode.LanguageModelChatInformation = {
+				id: "gpt-4o",
+				name: "gpt-4o",
+				family: "litellm",
+				version: "1.0.0",
+				maxInputTokens: 4096,
+				maxOutputTokens: 1024,
+				capabilities: {},
+			};
+			await provider.provideLanguageModelChatResponse(
+				model,
+				[new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hi")],
+				{ toolMode: vscode.LanguageModelChatToolMode.Auto },
+				{ report: () => {} },
+				new vscode.CancellationTokenSource().token
+			);
+
+			assert.strictEqual(record.callCount, 1);
+			assert.deepStrictEqual(record.firstCall.args, [
+				"gpt-4o",
+				{ promptTokens: 40, completionTokens: 2, cachedTokens: 0, cacheWriteTokens: 0, cost: 0.0125 },
+			]);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("forwards response_format to models that support it and checks the output of others", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: () => undefined,
+		} as unknown as vscode.WorkspaceConfiguration);
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [
+				{ model_name: "gpt-4o", model_info: { key: "gpt-4o", supports_response_schema: true } },
+				{ model_name: "llama", model_info: { key: "llama" } },
+			],
+		});
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async () => {
+			const chunk = { choices: [{ delta: { content: '```json\n{"answer": 42}\n```' } }] };
+			return new ReadableStream({
+				start(controller) {
+					controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n`));
+					controller.close();
+				},
+			});
+		});
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent);
+			const token = new vscode.CancellationTokenSource().token;
+			const [gpt, llama] = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+			const messages = [new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Answer?")];
+			const schema = { type: "object", properties: { answer: { type: "integer" } }, required: ["answer"] };
+			const options = {
+				toolMode: vscode.LanguageModelChatToolMode.Auto,
+				modelOptions: { response_format: { type: "json_schema", json_schema: { name: "answer", schema } } },
+			};
+
+			await provider.provideLanguageModelChatResponse(gpt, messages, options, { report: () => {} }, token);
+			const gptBody = chat.firstCall.args[0];
+			assert.deepStrictEqual(gptBody.response_format, options.modelOptions.response_format);
+			assert.strictEqual(gptBody.messages.length, 1);
+
+			const reported: vscode.LanguageModelResponsePart[] = [];
+			await provider.provideLanguageModelChatResponse(
+				llama,
+				messages,
+				options,
+				{ report: (part) => reported.push(part) },
+				token
+			);
+			const llamaBody = chat.secondCall.args[0];
+			assert.strictEqual(llamaBody.response_format, undefined);
+			assert.strictEqual(llamaBody.messages[0].role, "system");
+			assert.match(llamaBody.messages[0].content as string, /conforms to this JSON schema/);
+			assert.deepStrictEqual(
+				reported.map((part) => (part as vscode.LanguageModelTextPart).value),
+				['{"answer": 42}']
+			);
+
+			const invalid = {
+				...options.modelOptions.response_format,
+				json_schema: { name: "answer", schema: { ...schema, properties: { answer: { type: "string" } } } },
+			};
+			await assert.rejects(
+				provider.provideLanguageModelChatResponse(
+					llama,
+					messages,
+					{ ...options, modelOptions: { response_format: invalid } },
+					{ report: () => {} },
+					token
+				),
+				/\$\.answer should be string/
+			);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("summarizes dropped turns when summarization is enabled", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(vscode.workspace, "getConfiguration").returns({
+			get: (key: string) => ({ "summarization.enabled": true, "summarization.model": "cheap" })[key],
+		} as unknown as vscode.WorkspaceConfiguration);
+		const chat = sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async (request) =>
+			request.stream === false
+				? new Response(JSON.stringify({ choices: [{ message: { content: "User wants a parser" } }] })).body!
+				: new ReadableStream({
+						start(controller) {
+							controller.close();
+						},
+					})
+		);
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, userAgent);
+			const model: vscode.LanguageModelChatInformation = {
+				id: "gpt-4o",
+				name: "gpt-4o",
+				family: "litellm",
+				version: "1.0.0",
+				maxInputTokens: 40,
+				maxOutputTokens: 16,
+				capabilities: {},
+			};
+			const messages = [
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "write a parser ".repeat(30)),
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.Assistant, "Done"),
+				new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Thanks"),
+			];
+			await provider.provideLanguageModelChatResponse(
+				model,
+				messages,
+				{ toolMode: vscode.LanguageModelChatToolMode.Auto },
+				{ report: () => {} },
+				new vscode.CancellationTokenSource().token
+			);
+
+			assert.strictEqual(chat.callCount, 2);
+			assert.strictEqual(chat.firstCall.args[0].model, "cheap");
+			const sent = chat.secondCall.args[0].messages;
+			assert.strictEqual(sent[0].role, "system");
+			assert.match(sent[0].content as string, /User wants a parser/);
+			assert.strictEqual(sent[sent.length - 1].content, "Thanks");
+			assert.ok(!sent.some((m) => typeof m.content === "string" && m.content.includes("write a parser")));
+		} finally {
+			sandbox.restore();
+		}
+	});
 });
@@ -0,0 +1,96 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { ProxyTokenCounter } from "../../adapters/proxyTokenCounter";
+
+suite("ProxyTokenCounter Unit Tests", () => {
+	let sandbox: sinon.SinonSandbox;
+	const client = new LiteLLMClient({ url: "http://localhost:4000", key: "test-key" }, "test-ua");
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	test("caches proxy counts by content", async () => {
+		const countTokens = sandbox.stub(client, "countTokens").resolves({ total_tokens: 42 });
+		const counter = new ProxyTokenCounter();
+
+		assert.strictEqual(await counter.countText(client, "gpt-4o", "hello", () => 1), 42);
+		assert.strictEqual(await counter.countText(client, "gpt-4o", "hello", () => 1), 42);
+		assert.strictEqual(countTokens.callCount, 1);
+		assert.deepStrictEqual(countTokens.firstCall.args[0], { model: "gpt-4o", prompt: "hello" });
+
+		// A different model is a different cache entry
+		await counter.countText(client, "claude-3-haiku", "hello", () => 1);
+		assert.strictEqual(countTokens.callCount, 2);
+	});
+
+	test("falls back to the local estimate and skips the proxy after a failure", async () => {
+		const countTokens = sandbox.stub(client, "countTokens").rejects(new Error("Failed to count tokens: 404 Not Found"));
+		const counter = new ProxyTokenCounter();
+
+		assert.strictEqual(await counter.countText(client, "m", "a", () => 7), 7);
+		assert.strictEqual(await counter.countText(client, "m", "b", () => 8), 8);
+		assert.strictEqual(countTokens.callCount, 1);
+	});
+
+	test("slow responses time out and fall back", async () => {
+		const originalFetch = global.fetch;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = (_url: string, init: RequestInit) =>
+			new Promise((_resolve, reject) => {
+				init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+			});
+		try {
+			const counter = new ProxyTokenCounter(20);
+			const started = Date.now();
+			assert.strictEqual(await counter.countText(client, "m", "slow", () => 3), 3);
+			assert.ok(Date.now() - started < 1000);
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+
+	test("countTokens posts to /utils/token_counter", async () => {
+		const originalFetch = global.fetch;
+		let captured: { url: string; body: unknown } | undefined;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (url: string, init: RequestInit) => {
+			captured = { url, body: JSON.parse(init.body as string) };
+			return new Response(JSON.stringify({ total_tokens: 12, tokenizer_type: "openai_tokenizer" }));
+		};
+		try {
+			const result = await client.countTokens({ model: "gpt-4o", messages: [{ role: "user", content: "hi" }] });
+			assert.strictEqual(result.total_tokens, 12);
+			assert.strictEqual(captured?.url, "http://localhost:4000/utils/token_counter");
+			assert.deepStrictEqual(captured?.body, { model: "gpt-4o", messages: [{ role: "user", content: "hi" }] });
+		} finally {
+			global.fetch = originalFetch;
+		}
+	});
+
+	test("countAll preserves order with bounded parallelism", async () => {
+		const counter = new ProxyTokenCounter();
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const counts = await counter.countAll(
+			Array.from({ length: 20 }, (_, i) => i),
+			async (i) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((r) => setTimeout(r, 1));
+				inFlight--;
+				return i * 2;
+			}
+		);
+		assert.deepStrictEqual(
+			counts,
+			Array.from({ length: 20 }, (_, i) => i * 2)
+		);
+		assert.ok(maxInFlight <= 8);
+	});
+});
@@ -0,0 +1,188 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import type { LiteLLMResponsesRequest } from "../../types";
+import { ResponsesConversationStore } from "../../providers/responsesConversationStore";
+import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { RESPONSES_TEXT_THEN_TOOL_CALL } from "../fixtures/responsesStreams";
+
+function request(...input: LiteLLMResponsesRequest["input"]): LiteLLMResponsesRequest {
+	return { model: "gpt-5", input, stream: true };
+}
+
+const USER_1 = { type: "message" as const, role: "user", content: "Read a.ts" };
+const CALL_1 = {
+	type: "function_call" as const,
+	id: "fc_call_1",
+	call_id: "call_1",
+	name: "read_file",
+	arguments: '{"path":"a.ts"}',
+};
+const OUTPUT_1 = { type: "function_call_output" as const, call_id: "call_1", output: "export {}" };
+const ANSWER_1 = { type: "message" as const, role: "assistant", content: "It is empty." };
+const USER_2 = { type: "message" as const, role: "user", content: "Thanks" };
+
+suite("Responses Conversation Store Unit Tests", () => {
+	test("continues a recorded conversation with only the new items", () => {
+		const store = new ResponsesConversationStore();
+
+		const first = store.prepare(request(USER_1));
+		assert.strictEqual(first.previousResponseId, undefined);
+		first.record("resp_1");
+
+		// The tool call is the first response's own output; only its result is new
+		const second = store.prepare(request(USER_1, CALL_1, OUTPUT_1));
+		assert.strictEqual(second.previousResponseId, "resp_1");
+		assert.deepStrictEqual(second.body.input, [OUTPUT_1]);
+		assert.strictEqual(second.body.previous_response_id, "resp_1");
+		second.record("resp_2");
+
+		const third = store.prepare(request(USER_1, CALL_1, OUTPUT_1, ANSWER_1, USER_2));
+		assert.strictEqual(third.previousResponseId, "resp_2");
+		assert.deepStrictEqual(third.body.input, [USER_2]);
+	});
+
+	test("sends the full history for unknown or edited conversations", () => {
+		const store = new ResponsesConversationStore();
+		store.prepare(request(USER_1)).record("resp_1");
+
+		const edited = store.prepare(request({ ...USER_1, content: "Read b.ts" }, ANSWER_1, USER_2));
+		assert.strictEqual(edited.previousResponseId, undefined);
+		assert.strictEqual(edited.body.input.length, 3);
+
+		const otherModel = store.prepare({ ...request(USER_1, ANSWER_1, USER_2), model: "gpt-4.1" });
+		assert.strictEqual(otherModel.previousResponseId, undefined);
+	});
+
+	test("forget drops a rejected response id", () => {
+		const store = new ResponsesConversationStore();
+		store.prepare(request(USER_1)).record("resp_1");
+		store.forget("resp_1");
+
+		assert.strictEqual(store.prepare(request(USER_1, ANSWER_1, USER_2)).previousResponseId, undefined);
+	});
+
+	test("provider replays the full conversation when the proxy rejects the previous response id", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [{ model_name: "gpt-5", model_info: { key: "gpt-5", mode: "responses" } }],
+		});
+
+		const bodies: LiteLLMResponsesRequest[] = [];
+		const originalFetch = global.fetch;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (_url: string, init: RequestInit) => {
+			const body = JSON.parse(init.body as string) as LiteLLMResponsesRequest;
+			bodies.push(body);
+			if (body.previous_response_id === "resp_1" && bodies.length === 3) {
+				return new Response('{"error":{"message":"Previous response not found"}}', { status: 404 });
+			}
+			const created = { type: "response.created", response: { id: `resp_${bodies.length}` } };
+			return new Response(`data: ${JSON.stringify(created)}\n\n`);
+		};
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, "test-ua");
+			const token = new vscode.CancellationTokenSource().token;
+			const [model] = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+			const user = (text: string) => vscode.LanguageModelChatMessage.User(text);
+			const assistant = (text: string) => vscode.LanguageModelChatMessage.Assistant(text);
+			const options = { toolMode: vscode.LanguageModelChatToolMode.Auto };
+
+			await provider.provideLanguageModelChatResponse(model, [user("Hi")], options, { report: () => {} }, token);
+			await provider.provideLanguageModelChatResponse(
+				model,
+				[user("Hi"), assistant("Hello"), user("How are you?")],
+				options,
+				{ report: () => {} },
+				token
+			);
+
+			assert.strictEqual(bodies[1].previous_response_id, "resp_1");
+			assert.deepStrictEqual(
+				bodies[1].input.map((i) => (i as { content: string }).content),
+				["How are you?"]
+			);
+
+			// The proxy forgets resp_1: the next request with it falls back to the full history
+			await provider.provideLanguageModelChatResponse(
+				model,
+				[user("Hi"), assistant("Hello"), user("Other question")],
+				options,
+				{ report: () => {} },
+				token
+			);
+			assert.strictEqual(bodies[2].previous_response_id, "resp_1");
+			assert.strictEqual(bodies[3].previous_response_id, undefined);
+			assert.strictEqual(bodies[3].input.length, 3);
+		} finally {
+			global.fetch = originalFetch;
+			sandbox.restore();
+		}
+	});
+
+	test("a tool result continues the response that issued the call, under the server's call id", async () => {
+		const sandbox = sinon.createSandbox();
+		const secrets = {
+			get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage;
+		sandbox.stub(LiteLLMClient.prototype, "getModelInfo").resolves({
+			data: [{ model_name: "gpt-5", model_info: { key: "gpt-5", mode: "responses" } }],
+		});
+
+		const bodies: LiteLLMResponsesRequest[] = [];
+		const originalFetch = global.fetch;
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		(global as any).fetch = async (_url: string, init: RequestInit) => {
+			bodies.push(JSON.parse(init.body as string) as LiteLLMResponsesRequest);
+			return new Response(bodies.length === 1 ? RESPONSES_TEXT_THEN_TOOL_CALL : "");
+		};
+
+		try {
+			const provider = new LiteLLMChatModelProvider(secrets, "test-ua");
+			const token = new vscode.CancellationTokenSource().token;
+			const [model] = await provider.provideLanguageModelChatInformation({ silent: true }, token);
+			const options = { toolMode: vscode.LanguageModelChatToolMode.Auto };
+			const parts: vscode.LanguageModelResponsePart[] = [];
+			const user = vscode.LanguageModelChatMessage.User("Read a.ts");
+
+			await provider.provideLanguageModelChatResponse(model, [user], options, { report: (p) => parts.push(p) }, token);
+			const call = parts.find((p) => p instanceof vscode.LanguageModelToolCallPart) as vscode.LanguageModelToolCallPart;
+			assert.strictEqual(call.callId, "call_abc");
+
+			const text = parts.filter((p) => p instanceof vscode.LanguageModelTextPart) as vscode.LanguageModelTextPart[];
+			await provider.provideLanguageModelChatResponse(
+				model,
+				[
+					user,
+					vscode.LanguageModelChatMessage.Assistant([...text, call]),
+					vscode.LanguageModelChatMessage.User([
+						new vscode.LanguageModelToolResultPart(call.callId, [new vscode.LanguageModelTextPart("export {}")]),
+					]),
+				],
+				options,
+				{ report: () => {} },
+				token
+			);
+
+			assert.strictEqual(bodies.length, 2);
+			assert.strictEqual(bodies[1].previous_response_id, "resp_01");
+			assert.deepStrictEqual(bodies[1].input, [
+				{ type: "function_call_output", call_id: "call_abc", output: "export {}" },
+			]);
+		} finally {
+			global.fetch = originalFetch;
+			sandbox.restore();
+		}
+	});
+});
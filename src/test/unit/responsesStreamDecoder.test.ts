@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { StreamingSession } from "../../providers/streamingSession";
+import { ResponseStreamError } from "../../providers/responsesStreamDecoder";
+import {
+	RESPONSES_ERROR_EVENT,
+	RESPONSES_FAILED,
+	RESPONSES_INCOMPLETE,
+	RESPONSES_REASONING_SUMMARY,
+	RESPONSES_TEXT_THEN_TOOL_CALL,
+} from "../fixtures/responsesStreams";
+
+/**
+ * Replay a recorded body in small chunks that split events and lines at arbitrary points.
+ */
+async function replay(
+	body: string,
+	chunkSize = 37
+): Promise<{ parts: vscode.LanguageModelResponsePart[]; session: StreamingSession }> {
+	const parts: vscode.LanguageModelResponsePart[] = [];
+	const session = new StreamingSession({ report: (part) => parts.push(part) });
+	const bytes = new TextEncoder().encode(body);
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < bytes.length; i += chunkSize) {
+				controller.enqueue(bytes.slice(i, i + chunkSize));
+			}
+			controller.close();
+		},
+	});
+	await session.consume(stream, new vscode.CancellationTokenSource().token);
+	return { parts, session };
+}
+
+function textOf(parts: vscode.LanguageModelResponsePart[]): string {
+	return parts
+		.filter((p) => p instanceof vscode.LanguageModelTextPart)
+		.map((p) => p.value)
+		.join("");
+}
+
+suite("Responses Stream Decoder Unit Tests", () => {
+	test("decodes text, streamed function call arguments and usage", async () => {
+		const { parts, session } = await replay(RESPONSES_TEXT_THEN_TOOL_CALL);
+
+		assert.strictEqual(textOf(parts), "Let me check the file.");
+		const calls = parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+		assert.deepStrictEqual(
+			calls.map((c) => [c.callId, c.name, c.input]),
+			[["call_abc", "read_file", { path: "src/a.ts" }]]
+		);
+		assert.strictEqual(session.responseId, "resp_01");
+		assert.deepStrictEqual(session.usage, {
+			promptTokens: 321,
+			completionTokens: 42,
+			cachedTokens: 256,
+			cacheWriteTokens: 0,
+			cost: undefined,
+		});
+	});
+
+	test("emits the tool call once arguments are complete even without output_item.done", async () => {
+		// Cut the stream right before the function call's output_item.done event
+		const truncated = RESPONSES_TEXT_THEN_TOOL_CALL.slice(
+			0,
+			RESPONSES_TEXT_THEN_TOOL_CALL.lastIndexOf("event: response.output_item.done")
+		);
+		const { parts } = await replay(truncated);
+		assert.strictEqual(parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart).length, 1);
+	});
+
+	test("reports reasoning summaries separately from the answer", async () => {
+		const { parts, session } = await replay(RESPONSES_REASONING_SUMMARY, 11);
+		assert.strictEqual(textOf(parts), "Use B.");
+		assert.strictEqual(session.partialAssistantText, "Use B.");
+		assert.ok(parts.some((p) => !(p instanceof vscode.LanguageModelTextPart)));
+	});
+
+	test("response.failed throws with the server message", async () => {
+		await assert.rejects(
+			replay(RESPONSES_FAILED),
+			(err: unknown) =>
+				err instanceof ResponseStreamError &&
+				err.code === "server_error" &&
+				err.message.includes("The upstream model provider returned an error.")
+		);
+	});
+
+	test("response.incomplete throws with the reason", async () => {
+		await assert.rejects(replay(RESPONSES_INCOMPLETE), /incomplete \(max_output_tokens\)/);
+	});
+
+	test("error events throw with the server message", async () => {
+		await assert.rejects(
+			replay(RESPONSES_ERROR_EVENT),
+			(err: unknown) =>
+				err instanceof ResponseStreamError &&
+				err.code === "rate_limit_exceeded" &&
+				err.message.includes("Rate limit reached for requests")
+		);
+	});
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import type { ChatRequestOutcome } from "../../types";
+import { ConfigManager } from "../../config/configManager";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { ProxyStatusBar } from "../../ui/statusBar";
+
+suite("ProxyStatusBar Unit Tests", () => {
+	let sandbox: sinon.SinonSandbox;
+	let item: { text: string; tooltip?: vscode.MarkdownString; show: () => void; dispose: () => void };
+	let secretsMap: Map<string, string>;
+	let configManager: ConfigManager;
+	const onDidChange = new vscode.EventEmitter<void>();
+	const onDidCompleteRequest = new vscode.EventEmitter<ChatRequestOutcome>();
+	const source = {
+		onDidChangeLanguageModelChatInformation: onDidChange.event,
+		onDidCompleteRequest: onDidCompleteRequest.event,
+	};
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+		item = { text: "", show: () => {}, dispose: () => {} };
+		sandbox.stub(vscode.window, "createStatusBarItem").returns(item as unknown as vscode.StatusBarItem);
+		secretsMap = new Map();
+		configManager = new ConfigManager({
+			get: async (key: string) => secretsMap.get(key),
+			store: async () => {},
+			delete: async () => {},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage);
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	test("shows unconfigured without a base URL", async () => {
+		const checkHealth = sandbox.stub(LiteLLMClient.prototype, "checkHealth");
+		const statusBar = new ProxyStatusBar(configManager, "test-ua", source);
+		try {
+			await statusBar.refresh();
+			assert.strictEqual(statusBar.health, "unconfigured");
+			assert.strictEqual(item.text, "$(gear) LiteLLM");
+			assert.strictEqual(checkHealth.callCount, 0);
+		} finally {
+			statusBar.dispose();
+		}
+	});
+
+	test("reflects health checks and request outcomes", async () => {
+		secretsMap.set("litellm-connector.baseUrl", "http://localhost:4000");
+		const checkHealth = sandbox.stub(LiteLLMClient.prototype, "checkHealth").resolves("unreachable");
+		const statusBar = new ProxyStatusBar(configManager, "test-ua", source);
+		try {
+			await statusBar.refresh();
+			assert.strictEqual(statusBar.health, "unreachable");
+			assert.strictEqual(item.text, "$(error) LiteLLM");
+
+			checkHealth.resolves("reachable");
+			await statusBar.refresh();
+			assert.strictEqual(statusBar.health, "reachable");
+
+			onDidCompleteRequest.fire({
+				modelId: "gpt-4o",
+				latencyMs: 1500,
+				usage: { promptTokens: 1200, completionTokens: 30, cachedTokens: 0, cacheWriteTokens: 0, cost: 0.002 },
+			});
+			assert.ok(item.tooltip?.value.includes("Last request: gpt-4o · 1.5 s · 1,200 prompt / 30 completion tokens"));
+
+			onDidCompleteRequest.fire({ modelId: "gpt-4o", latencyMs: 10, errorStatus: 401, error: "Unauthorized" });
+			assert.strictEqual(statusBar.health, "authFailed");
+			assert.strictEqual(item.text, "$(key) LiteLLM");
+		} finally {
+			statusBar.dispose();
+		}
+	});
+});
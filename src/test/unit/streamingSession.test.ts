@@ -0,0 +1,247 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import { StreamingSession } from "../../providers/streamingSession";
+import { LiteLLMChatModelProvider } from "../../providers/liteLLMProvider";
+import { LiteLLMClient } from "../../adapters/litellmClient";
+import { StructuredOutputBuffer } from "../../providers/structuredOutput";
+
+function collect(): {
+	parts: vscode.LanguageModelResponsePart[];
+	progress: vscode.Progress<vscode.LanguageModelResponsePart>;
+} {
+	const parts: vscode.LanguageModelResponsePart[] = [];
+	return { parts, progress: { report: (part) => parts.push(part) } };
+}
+
+function sse(payload: unknown): string {
+	return `data: ${JSON.stringify(payload)}`;
+}
+
+function toolCallChunk(index: number, id: string | undefined, name: string | undefined, args: string): string {
+	return sse({
+		choices: [{ delta: { tool_calls: [{ index, id, function: { name, arguments: args } }] } }],
+	});
+}
+
+suite("StreamingSession Unit Tests", () => {
+	test("interleaved sessions keep tool call buffers separate", async () => {
+		const a = collect();
+		const b = collect();
+		const sessionA = new StreamingSession(a.progress);
+		const sessionB = new StreamingSession(b.progress);
+
+		await sessionA.processLine(toolCallChunk(0, "call_a", "readFile", '{"path":'));
+		await sessionB.processLine(toolCallChunk(0, "call_b", "runTests", '{"filter":'));
+		await sessionA.processLine(toolCallChunk(0, undefined, undefined, '"a.ts"}'));
+		await sessionB.processLine(toolCallChunk(0, undefined, undefined, '"unit"}'));
+		await sessionA.processLine("data: [DONE]");
+		await sessionB.processLine("data: [DONE]");
+
+		const callsA = a.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+		const callsB = b.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+		assert.strictEqual(callsA.length, 1);
+		assert.strictEqual(callsB.length, 1);
+		assert.deepStrictEqual(
+			[callsA[0].callId, callsA[0].name, callsA[0].input],
+			["call_a", "readFile", { path: "a.ts" }]
+		);
+		assert.deepStrictEqual(
+			[callsB[0].callId, callsB[0].name, callsB[0].input],
+			["call_b", "runTests", { filter: "unit" }]
+		);
+	});
+
+	test("interleaved sessions keep text tool call parsing separate", async () => {
+		const a = collect();
+		const b = collect();
+		const sessionA = new StreamingSession(a.progress);
+		const sessionB = new StreamingSession(b.progress);
+
+		await sessionA.processLine(
+			sse({ choices: [{ delta: { content: 'before <|tool_call_begin|>search<|tool_call_argument_begin|>{"q":' } }] })
+		);
+		await sessionB.processLine(sse({ choices: [{ delta: { content: "plain answer" } }] }));
+		await sessionA.processLine(sse({ choices: [{ delta: { content: '"x"}<|tool_call_end|>' } }] }));
+
+		const textA = a.parts.filter((p) => p instanceof vscode.LanguageModelTextPart).map((p) => p.value);
+		const textB = b.parts.filter((p) => p instanceof vscode.LanguageModelTextPart).map((p) => p.value);
+		assert.deepStrictEqual(textA, ["before "]);
+		assert.deepStrictEqual(textB, ["plain answer"]);
+		assert.strictEqual(sessionA.partialAssistantText, "before ");
+		assert.strictEqual(sessionB.partialAssistantText, "plain answer");
+
+		const callsA = a.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+		assert.strictEqual(callsA.length, 1);
+		assert.strictEqual(callsA[0].name, "search");
+		assert.strictEqual(b.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart).length, 0);
+	});
+
+	test("concurrent provider responses do not reset each other", async () => {
+		const sandbox = sinon.createSandbox();
+		try {
+			const secrets = {
+				get: async (key: string) => (key === "litellm-connector.baseUrl" ? "http://localhost:4000" : undefined),
+				store: async () => {},
+				delete: async () => {},
+				onDidChange: (_listener: unknown) => ({ dispose() {} }),
+			} as unknown as vscode.SecretStorage;
+			const provider = new LiteLLMChatModelProvider(secrets, "test-ua");
+
+			// Each stream is fed manually so the two responses can be interleaved chunk by chunk.
+			const controllers: ReadableStreamDefaultController<Uint8Array>[] = [];
+			sandbox.stub(LiteLLMClient.prototype, "chat").callsFake(async () => {
+				return new ReadableStream<Uint8Array>({
+					start(controller) {
+						controllers.push(controller);
+					},
+				});
+			});
+
+			const model: vscode.LanguageModelChatInformation = {
+				id: "test-model",
+				name: "Test Model",
+				family: "litellm",
+				version: "1.0.0",
+				maxInputTokens: 4096,
+				maxOutputTokens: 1024,
+				capabilities: { toolCalling: true, imageInput: false },
+			};
+			const messages = [new vscode.LanguageModelChatMessage(vscode.LanguageModelChatMessageRole.User, "Hello")];
+			const options = { toolMode: vscode.LanguageModelChatToolMode.Auto };
+			const a = collect();
+			const b = collect();
+			const token = new vscode.CancellationTokenSource().token;
+
+			const first = provider.provideLanguageModelChatResponse(model, messages, options, a.progress, token);
+			while (controllers.length < 1) {
+				await new Promise((r) => setTimeout(r, 1));
+			}
+			const second = provider.provideLanguageModelChatResponse(model, messages, options, b.progress, token);
+			while (controllers.length < 2) {
+				await new Promise((r) => setTimeout(r, 1));
+			}
+
+			const encoder = new TextEncoder();
+			const send = (i: number, line: string) => controllers[i].enqueue(encoder.encode(`${line}\n`));
+			send(0, toolCallChunk(0, "call_first", "editFile", '{"file":'));
+			send(1, toolCallChunk(0, "call_second", "listDir", '{"dir":'));
+			send(0, toolCallChunk(0, undefined, undefined, '"x.ts"}'));
+			send(1, toolCallChunk(0, undefined, undefined, '"src"}'));
+			controllers[0].close();
+			controllers[1].close();
+			await Promise.all([first, second]);
+
+			const callsA = a.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+			const callsB = b.parts.filter((p) => p instanceof vscode.LanguageModelToolCallPart);
+			assert.deepStrictEqual(
+				callsA.map((c) => [c.callId, c.input]),
+				[["call_first", { file: "x.ts" }]]
+			);
+			assert.deepStrictEqual(
+				callsB.map((c) => [c.callId, c.input]),
+				[["call_second", { dir: "src" }]]
+			);
+		} finally {
+			sandbox.restore();
+		}
+	});
+
+	test("reasoning deltas are reported as thinking parts", async () => {
+		const out = collect();
+		const session = new StreamingSession(out.progress);
+		await session.processLine(sse({ choices: [{ delta: { reasoning_content: "Let me think" } }] }));
+		await session.processLine(sse({ type: "response.reasoning_summary_text.delta", delta: " more" }));
+		await session.processLine(sse({ choices: [{ delta: { content: "Answer" } }] }));
+
+		const { LanguageModelThinkingPart } = vscode as unknown as {
+			LanguageModelThinkingPart: new (value: string) => { value: string };
+		};
+		const thinking = out.parts.filter((p) => p instanceof LanguageModelThinkingPart);
+		assert.deepStrictEqual(
+			thinking.map((p) => p.value),
+			["Let me think", " more"]
+		);
+		assert.strictEqual(session.partialAssistantText, "Answer");
+	});
+
+	test("reasoning falls back to a collapsed block without a thinking part", async () => {
+		// Remove the class from the module itself; compiled namespace imports read through to it.
+		const vscodeModule = require.cache[require.resolve("vscode")]!.exports as Record<string, unknown>;
+		const thinkingPart = vscodeModule.LanguageModelThinkingPart;
+		delete vscodeModule.LanguageModelThinkingPart;
+		try {
+			const out = collect();
+			const session = new StreamingSession(out.progress);
+			await session.processLine(
+				sse({ choices: [{ delta: { thinking_blocks: [{ type: "thinking", thinking: "Hmm" }] } }] })
+			);
+			await session.processLine(sse({ choices: [{ delta: { content: "Done" } }] }));
+			await session.processLine("data: [DONE]");
+
+			const text = out.parts.map((p) => (p as vscode.LanguageModelTextPart).value).join("");
+			assert.strictEqual(text, "<details><summary>Thinking</summary>\n\nHmm\n\n</details>\n\nDone");
+			assert.strictEqual(session.partialAssistantText, "Done");
+		} finally {
+			vscodeModule.LanguageModelThinkingPart = thinkingPart;
+		}
+	});
+
+	test("reasoning shown as text bypasses a structured output buffer", async () => {
+		const vscodeModule = require.cache[require.resolve("vscode")]!.exports as Record<string, unknown>;
+		const thinkingPart = vscodeModule.LanguageModelThinkingPart;
+		delete vscodeModule.LanguageModelThinkingPart;
+		try {
+			const out = collect();
+			const buffer = new StructuredOutputBuffer(out.progress, { type: "json_object" });
+			const session = new StreamingSession(buffer, out.progress);
+			await session.processLine(sse({ choices: [{ delta: { reasoning_content: "Hmm" } }] }));
+			await session.processLine(sse({ choices: [{ delta: { content: '{"ok": true}' } }] }));
+			await session.processLine("data: [DONE]");
+			buffer.flush();
+
+			const text = out.parts.map((p) => (p as vscode.LanguageModelTextPart).value).join("");
+			assert.strictEqual(text, '<details><summary>Thinking</summary>\n\nHmm\n\n</details>\n\n{"ok": true}');
+		} finally {
+			vscodeModule.LanguageModelThinkingPart = thinkingPart;
+		}
+	});
+
+	test("captures usage from chat completions and responses streams", async () => {
+		const chat = new StreamingSession(collect().progress);
+		await chat.processLine(
+			sse({
+				choices: [],
+				usage: {
+					prompt_tokens: 120,
+					completion_tokens: 30,
+					prompt_tokens_details: { cached_tokens: 100 },
+					cache_creation_input_tokens: 20,
+					cost: 0.0042,
+				},
+			})
+		);
+		assert.deepStrictEqual(chat.usage, {
+			promptTokens: 120,
+			completionTokens: 30,
+			cachedTokens: 100,
+			cacheWriteTokens: 20,
+			cost: 0.0042,
+		});
+
+		const responses = new StreamingSession(collect().progress);
+		await responses.processLine(
+			sse({
+				type: "response.completed",
+				response: { usage: { input_tokens: 50, output_tokens: 8, input_tokens_details: { cached_tokens: 0 } } },
+			})
+		);
+		assert.deepStrictEqual(responses.usage, {
+			promptTokens: 50,
+			completionTokens: 8,
+			cachedTokens: 0,
+			cacheWriteTokens: 0,
+			cost: undefined,
+		});
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import {
+	addFormatInstructions,
+	parseResponseFormat,
+	StructuredOutputBuffer,
+	supportsResponseFormat,
+	validateJsonSchema,
+} from "../../providers/structuredOutput";
+import type { OpenAIChatMessage } from "../../types";
+
+const personSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string" },
+		age: { type: "integer" },
+		tags: { type: "array", items: { enum: ["a", "b"] } },
+	},
+	required: ["name", "age"],
+	additionalProperties: false,
+};
+
+const personFormat = { type: "json_schema" as const, json_schema: { name: "person", schema: personSchema } };
+
+suite("Structured Output Unit Tests", () => {
+	test("parseResponseFormat accepts JSON formats and rejects malformed ones", () => {
+		assert.strictEqual(parseResponseFormat(undefined), undefined);
+		assert.strictEqual(parseResponseFormat({ type: "text" }), undefined);
+		assert.deepStrictEqual(parseResponseFormat({ type: "json_object" }), { type: "json_object" });
+		assert.deepStrictEqual(
+			parseResponseFormat({ ...personFormat, json_schema: { ...personFormat.json_schema, strict: true } }),
+			{
+				type: "json_schema",
+				json_schema: { name: "person", schema: personSchema, strict: true },
+			}
+		);
+
+		assert.throws(() => parseResponseFormat("json"), /expected an object/);
+		assert.throws(() => parseResponseFormat({ type: "yaml" }), /unsupported type "yaml"/);
+		assert.throws(() => parseResponseFormat({ type: "json_schema", json_schema: {} }), /needs a name/);
+	});
+
+	test("supportsResponseFormat follows the model info", () => {
+		assert.ok(supportsResponseFormat(personFormat, { supports_response_schema: true }));
+		assert.ok(!supportsResponseFormat(personFormat, { supported_openai_params: ["response_format"] }));
+		assert.ok(supportsResponseFormat({ type: "json_object" }, { supported_openai_params: ["response_format"] }));
+		assert.ok(!supportsResponseFormat({ type: "json_object" }, undefined));
+	});
+
+	test("validateJsonSchema reports violations with their paths", () => {
+		assert.deepStrictEqual(validateJsonSchema({ name: "Ada", age: 36, tags: ["a"] }, personSchema), []);
+		assert.deepStrictEqual(validateJsonSchema({ name: 1, age: 3.5, tags: ["c"], extra: true }, personSchema), [
+			"$.name should be string",
+			"$.age should be integer",
+			'$.tags[0] should be one of ["a","b"]',
+			'$ has unexpected property "extra"',
+		]);
+		assert.deepStrictEqual(validateJsonSchema({}, personSchema), [
+			'$ is missing required property "name"',
+			'$ is missing required property "age"',
+		]);
+		assert.deepStrictEqual(validateJsonSchema(null, { anyOf: [{ type: "string" }, { type: "null" }] }), []);
+	});
+
+	test("addFormatInstructions extends the system prompt", () => {
+		const messages: OpenAIChatMessage[] = [
+			{ role: "system", content: "Be brief" },
+			{ role: "user", content: "Who?" },
+		];
+		addFormatInstructions(messages, personFormat);
+		assert.strictEqual(messages.length, 2);
+		assert.match(
+			messages[0].content as string,
+			/^Be brief\n\nRespond only with a JSON value .*"required":\["name","age"\]/s
+		);
+
+		const withoutSystem: OpenAIChatMessage[] = [{ role: "user", content: "Who?" }];
+		addFormatInstructions(withoutSystem, { type: "json_object" });
+		assert.deepStrictEqual(withoutSystem[0], {
+			role: "system",
+			content: "Respond only with a JSON object, without any other text or code fences.",
+		});
+	});
+
+	test("StructuredOutputBuffer reports checked JSON and rejects mismatches", () => {
+		const reported: vscode.LanguageModelResponsePart[] = [];
+		const progress = { report: (part: vscode.LanguageModelResponsePart) => reported.push(part) };
+
+		const buffer = new StructuredOutputBuffer(progress, personFormat);
+		buffer.report(new vscode.LanguageModelTextPart('```json\n{"name": "Ada",'));
+		buffer.report(new vscode.LanguageModelTextPart(' "age": 36}\n```'));
+		assert.strictEqual(reported.length, 0);
+		buffer.flush();
+		assert.strictEqual((reported[0] as vscode.LanguageModelTextPart).value, '{"name": "Ada", "age": 36}');
+
+		const invalid = new StructuredOutputBuffer(progress, personFormat);
+		invalid.report(new vscode.LanguageModelTextPart('{"name": "Ada"}'));
+		assert.throws(
+			() => invalid.flush(),
+			/does not match the requested JSON schema: \$ is missing required property "age"/
+		);
+
+		const notJson = new StructuredOutputBuffer(progress, { type: "json_object" });
+		notJson.report(new vscode.LanguageModelTextPart("Sure! Here it is."));
+		assert.throws(() => notJson.flush(), /not valid JSON/);
+		assert.strictEqual(reported.length, 1);
+	});
+});
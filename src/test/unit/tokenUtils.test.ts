@@ -6,6 +6,31 @@ import {
 	isAnthropicModel,
 	trimMessagesToFitBudget,
 } from "../../adapters/tokenUtils";
+import { getTokenizer } from "../../adapters/tokenizer";
+import { validateRequest } from "../../utils";
+
+const user = (...content: unknown[]) =>
+	({
+		role: vscode.LanguageModelChatMessageRole.User,
+		content,
+		name: undefined,
+	}) as vscode.LanguageModelChatRequestMessage;
+const assistant = (...content: unknown[]) =>
+	({
+		role: vscode.LanguageModelChatMessageRole.Assistant,
+		content,
+		name: undefined,
+	}) as vscode.LanguageModelChatRequestMessage;
+const system = (text: string) =>
+	({
+		role: 3 as unknown as vscode.LanguageModelChatMessageRole,
+		content: [new vscode.LanguageModelTextPart(text)],
+		name: undefined,
+	}) as unknown as vscode.LanguageModelChatRequestMessage;
+const toolCall = (callId: string) => new vscode.LanguageModelToolCallPart(callId, "readFile", {});
+const toolResult = (callId: string, text: string) =>
+	new vscode.LanguageModelToolResultPart(callId, [new vscode.LanguageModelTextPart(text)]);
+const budget = (maxInputTokens: number) => ({ id: "test", maxInputTokens }) as vscode.LanguageModelChatInformation;
 
 suite("TokenUtils Unit Tests", () => {
 	test("estimateSingleMessageTokens estimates text parts", () => {
@@ -93,4 +118,122 @@ suite("TokenUtils Unit Tests", () => {
 		const trimmed = trimMessagesToFitBudget([msg], undefined, modelInfo);
 		assert.strictEqual(trimmed.length, 1);
 	});
+
+	test("estimateSingleMessageTokens counts tool calls, tool results and images", () => {
+		const tokenizer = getTokenizer("gpt-4o");
+		const call = new vscode.LanguageModelToolCallPart("call_1", "readFile", { path: "src/extension.ts" });
+		const result = new vscode.LanguageModelToolResultPart("call_1", [
+			new vscode.LanguageModelTextPart("file contents"),
+		]);
+
+		const callMsg = {
+			role: vscode.LanguageModelChatMessageRole.Assistant,
+			content: [call],
+			name: undefined,
+		} as unknown as vscode.LanguageModelChatRequestMessage;
+		const resultMsg = {
+			role: vscode.LanguageModelChatMessageRole.User,
+			content: [result],
+			name: undefined,
+		} as unknown as vscode.LanguageModelChatRequestMessage;
+
+		const overhead = tokenizer.messageOverhead;
+		assert.strictEqual(
+			estimateSingleMessageTokens(callMsg, tokenizer),
+			overhead * 2 + tokenizer.countText("readFile") + tokenizer.countText('{"path":"src/extension.ts"}')
+		);
+		assert.strictEqual(
+			estimateSingleMessageTokens(resultMsg, tokenizer),
+			overhead * 2 + tokenizer.countText("file contents")
+		);
+
+		const png = new Uint8Array(32);
+		png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+		new DataView(png.buffer).setUint32(16, 512);
+		new DataView(png.buffer).setUint32(20, 512);
+		const imageMsg = {
+			role: vscode.LanguageModelChatMessageRole.User,
+			content: [new vscode.LanguageModelDataPart(png, "image/png")],
+			name: undefined,
+		} as unknown as vscode.LanguageModelChatRequestMessage;
+		assert.strictEqual(estimateSingleMessageTokens(imageMsg, tokenizer), overhead + 255);
+	});
+
+	test("estimateSingleMessageTokens estimates PDFs by page and skips other binary data", () => {
+		const tokenizer = getTokenizer("gpt-4o");
+		const message = (data: Uint8Array, mimeType: string) =>
+			({
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [new vscode.LanguageModelDataPart(data, mimeType)],
+				name: undefined,
+			}) as unknown as vscode.LanguageModelChatRequestMessage;
+		const binary = new Uint8Array(200_000).map((_, i) => (i * 7919) % 256);
+		const overhead = tokenizer.messageOverhead;
+
+		const pages = "1 0 obj << /Type /Pages /Count 2 >> 2 0 obj << /Type /Page >> 3 0 obj << /Type/Page >>";
+		const pdf = new Uint8Array([...new TextEncoder().encode(`%PDF-1.7\n${pages}\n`), ...binary]);
+		assert.strictEqual(estimateSingleMessageTokens(message(pdf, "application/pdf"), tokenizer), overhead + 2 * 1500);
+		// Compressed page objects: estimated from the size
+		assert.strictEqual(estimateSingleMessageTokens(message(binary, "application/pdf"), tokenizer), overhead + 4 * 1500);
+		assert.strictEqual(estimateSingleMessageTokens(message(binary, "application/zip"), tokenizer), overhead);
+		assert.strictEqual(
+			estimateSingleMessageTokens(message(new TextEncoder().encode('{"a": 1}'), "application/json"), tokenizer),
+			overhead + tokenizer.countText('{"a": 1}')
+		);
+	});
+
+	test("trimMessagesToFitBudget keeps tool calls and their results together", () => {
+		// Fallback tokenizer: a call is 3 tokens, each result 100, "continue" 2
+		const messages = [
+			user(new vscode.LanguageModelTextPart("start")),
+			assistant(toolCall("call_1")),
+			user(toolResult("call_1", "a".repeat(400))),
+			assistant(toolCall("call_2"), toolCall("call_3")),
+			user(toolResult("call_2", "b".repeat(200))),
+			user(toolResult("call_3", "c".repeat(200))),
+			user(new vscode.LanguageModelTextPart("continue")),
+		];
+
+		// Dropping messages one by one would keep both results but only part of the call turn
+		const tight = trimMessagesToFitBudget(messages, undefined, budget(105));
+		assert.deepStrictEqual(tight, [messages[6]]);
+		assert.doesNotThrow(() => validateRequest(tight));
+
+		const roomy = trimMessagesToFitBudget(messages, undefined, budget(120));
+		assert.deepStrictEqual(roomy, messages.slice(3));
+		assert.doesNotThrow(() => validateRequest(roomy));
+	});
+
+	test("trimMessagesToFitBudget keeps every system message in place", () => {
+		const messages = [
+			system("You are helpful"),
+			user(new vscode.LanguageModelTextPart("x".repeat(200))),
+			system("Answer briefly"),
+			user(new vscode.LanguageModelTextPart("question")),
+		];
+
+		const trimmed = trimMessagesToFitBudget(messages, undefined, budget(20));
+		assert.deepStrictEqual(trimmed, [messages[0], messages[2], messages[3]]);
+	});
+
+	test("trimMessagesToFitBudget shortens large tool results before dropping turns", () => {
+		const messages = [
+			user(new vscode.LanguageModelTextPart("read the log")),
+			assistant(toolCall("call_1")),
+			user(toolResult("call_1", "HEAD" + "x".repeat(8000) + "TAIL")),
+			user(new vscode.LanguageModelTextPart("what failed?")),
+		];
+
+		const trimmed = trimMessagesToFitBudget(messages, undefined, budget(600));
+		assert.strictEqual(trimmed.length, 4);
+		assert.strictEqual(trimmed[0], messages[0]);
+		assert.strictEqual(trimmed[3], messages[3]);
+
+		const result = trimmed[2].content[0] as vscode.LanguageModelToolResultPart;
+		assert.strictEqual(result.callId, "call_1");
+		const text = (result.content[0] as vscode.LanguageModelTextPart).value;
+		assert.ok(text.startsWith("HEAD") && text.endsWith("TAIL"));
+		assert.match(text, /tokens of tool output elided/);
+		assert.ok(estimateSingleMessageTokens(trimmed[2]) < 300);
+	});
 });
@@ -0,0 +1,114 @@
+import * as assert from "assert";
+import {
+	BpeTokenizer,
+	ClaudeTokenizer,
+	FallbackTokenizer,
+	getTokenizer,
+	registerTokenizerResolver,
+} from "../../adapters/tokenizer";
+import { getImageDimensions } from "../../adapters/imageUtils";
+import type { LiteLLMModelInfo } from "../../types";
+import { TOKEN_COUNT_FIXTURES } from "../fixtures/tokenCounts";
+
+suite("Tokenizer Unit Tests", () => {
+	test("o200k models match tiktoken reference counts", () => {
+		const tokenizer = getTokenizer("gpt-4o");
+		assert.strictEqual(tokenizer.name, "o200k_base");
+		for (const fixture of TOKEN_COUNT_FIXTURES) {
+			assert.strictEqual(tokenizer.countText(fixture.text), fixture.o200k, fixture.text);
+		}
+	});
+
+	test("cl100k models match tiktoken reference counts", () => {
+		const tokenizer = getTokenizer("gpt-4-turbo");
+		assert.strictEqual(tokenizer.name, "cl100k_base");
+		for (const fixture of TOKEN_COUNT_FIXTURES) {
+			assert.strictEqual(tokenizer.countText(fixture.text), fixture.cl100k, fixture.text);
+		}
+	});
+
+	test("memoized counts for long texts are stable", () => {
+		const tokenizer = getTokenizer("gpt-4o");
+		const text = TOKEN_COUNT_FIXTURES.map((f) => f.text)
+			.join("\n")
+			.repeat(10);
+		assert.strictEqual(tokenizer.countText(text), tokenizer.countText(text));
+	});
+
+	test("getTokenizer selects by litellm_provider and model id", () => {
+		const anthropic = { litellm_provider: "anthropic" } as LiteLLMModelInfo;
+		const openai = { litellm_provider: "openai" } as LiteLLMModelInfo;
+
+		assert.ok(getTokenizer("claude-sonnet-4-5") instanceof ClaudeTokenizer);
+		assert.ok(getTokenizer("team-sonnet", anthropic) instanceof ClaudeTokenizer);
+		assert.strictEqual(getTokenizer("o3-mini").name, "o200k_base");
+		assert.strictEqual(getTokenizer("prod/gpt-5-mini").name, "o200k_base");
+		assert.strictEqual(getTokenizer("my-finetune", openai).name, "o200k_base");
+		assert.strictEqual(getTokenizer("ollama/llama3.1:8b").name, "cl100k_base");
+		assert.strictEqual(getTokenizer("hosted_vllm/Qwen2.5-Coder-32B").name, "cl100k_base");
+		assert.ok(getTokenizer("gemini-2.5-pro") instanceof FallbackTokenizer);
+	});
+
+	test("registered resolvers take precedence over built-in selection", () => {
+		const custom = new BpeTokenizer("custom", () => {
+			throw new Error("not loaded in this test");
+		});
+		const unregister = registerTokenizerResolver((modelId) => (modelId === "gpt-4o" ? custom : undefined));
+		try {
+			assert.strictEqual(getTokenizer("gpt-4o"), custom);
+			assert.strictEqual(getTokenizer("gpt-4o-mini").name, "o200k_base");
+		} finally {
+			unregister();
+		}
+		assert.strictEqual(getTokenizer("gpt-4o").name, "o200k_base");
+	});
+
+	test("Claude heuristic never undercounts the cl100k encoding", () => {
+		const claude = getTokenizer("claude-3-5-sonnet");
+		const cl100k = getTokenizer("gpt-4");
+		for (const fixture of TOKEN_COUNT_FIXTURES) {
+			assert.ok(claude.countText(fixture.text) >= cl100k.countText(fixture.text), fixture.text);
+		}
+	});
+
+	test("fallback counts CJK characters individually", () => {
+		const fallback = new FallbackTokenizer();
+		assert.strictEqual(fallback.countText("Hello world"), 3);
+		const japanese = TOKEN_COUNT_FIXTURES[5];
+		const estimate = fallback.countText(japanese.text);
+		assert.ok(estimate > Math.ceil(japanese.text.length / 4));
+		assert.ok(Math.abs(estimate - japanese.cl100k) <= 3);
+	});
+
+	test("image token estimates follow provider formulas", () => {
+		const openai = getTokenizer("gpt-4o");
+		const claude = getTokenizer("claude-3-opus");
+		assert.strictEqual(openai.countImage({ width: 1024, height: 1024 }), 765);
+		assert.strictEqual(openai.countImage({ width: 512, height: 512 }), 255);
+		assert.strictEqual(openai.countImage({ width: 4096, height: 2048 }), 1105);
+		assert.strictEqual(claude.countImage({ width: 1000, height: 1000 }), 1334);
+		assert.strictEqual(claude.countImage({ width: 3136, height: 3136 }), 3279);
+		assert.strictEqual(openai.countImage(undefined), 765);
+	});
+
+	test("getImageDimensions reads PNG, JPEG and GIF headers", () => {
+		const png = new Uint8Array(32);
+		png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+		new DataView(png.buffer).setUint32(16, 1920);
+		new DataView(png.buffer).setUint32(20, 1080);
+		assert.deepStrictEqual(getImageDimensions(png), { width: 1920, height: 1080 });
+
+		// SOI, an APP0 segment of length 4, then SOF0 with height 600 and width 800
+		const jpeg = new Uint8Array([
+			0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03, 0x01,
+			0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+		]);
+		assert.deepStrictEqual(getImageDimensions(jpeg), { width: 800, height: 600 });
+
+		const gif = new Uint8Array(32);
+		gif.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x40, 0x01, 0xf0, 0x00]);
+		assert.deepStrictEqual(getImageDimensions(gif), { width: 320, height: 240 });
+
+		assert.strictEqual(getImageDimensions(new Uint8Array(40)), undefined);
+	});
+});
@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import { UsageTracker } from "../../usage/usageTracker";
+import { createMemento } from "../fixtures/memento";
+
+suite("UsageTracker Unit Tests", () => {
+	test("aggregates usage per model and per day", async () => {
+		const tracker = new UsageTracker(createMemento());
+		const day1 = new Date(2026, 0, 10, 12);
+		const day2 = new Date(2026, 0, 11, 9);
+
+		await tracker.record(
+			"gpt-4o",
+			{ promptTokens: 100, completionTokens: 20, cachedTokens: 50, cacheWriteTokens: 0, cost: 0.01 },
+			day1
+		);
+		await tracker.record(
+			"gpt-4o",
+			{ promptTokens: 200, completionTokens: 30, cachedTokens: 0, cacheWriteTokens: 0, cost: 0.02 },
+			day2
+		);
+		await tracker.record(
+			"claude",
+			{ promptTokens: 10, completionTokens: 5, cachedTokens: 0, cacheWriteTokens: 8 },
+			day2
+		);
+
+		const { total, byModel, byDay } = tracker.getSummary();
+		assert.strictEqual(total.requests, 3);
+		assert.strictEqual(total.promptTokens, 310);
+		assert.strictEqual(total.completionTokens, 55);
+		assert.strictEqual(total.cachedTokens, 50);
+		assert.strictEqual(total.cacheWriteTokens, 8);
+		assert.ok(Math.abs(total.cost - 0.03) < 1e-9);
+		assert.strictEqual(byModel["gpt-4o"].requests, 2);
+		assert.strictEqual(byModel["claude"].cost, 0);
+		assert.deepStrictEqual(
+			byDay.map((d) => [d.day, d.totals.requests]),
+			[
+				["2026-01-11", 2],
+				["2026-01-10", 1],
+			]
+		);
+	});
+
+	test("drops days older than the retention window", async () => {
+		const tracker = new UsageTracker(createMemento());
+		const usage = { promptTokens: 1, completionTokens: 1, cachedTokens: 0, cacheWriteTokens: 0 };
+		await tracker.record("m", usage, new Date(2026, 0, 1, 12));
+		await tracker.record("m", usage, new Date(2026, 5, 1, 12));
+
+		assert.deepStrictEqual(
+			tracker.getSummary().byDay.map((d) => d.day),
+			["2026-06-01"]
+		);
+	});
+
+	test("clear removes all usage and notifies listeners", async () => {
+		const tracker = new UsageTracker(createMemento());
+		let changes = 0;
+		tracker.onDidChange(() => changes++);
+		await tracker.record("m", { promptTokens: 1, completionTokens: 1, cachedTokens: 0, cacheWriteTokens: 0 });
+		await tracker.clear();
+
+		assert.strictEqual(tracker.getSummary().total.requests, 0);
+		assert.strictEqual(changes, 2);
+	});
+});
@@ -1,6 +1,12 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
-import { convertMessages, validateRequest, validateTools, tryParseJSONObject } from "../../utils";
+import {
+	convertMessages,
+	omittedAttachmentText,
+	validateRequest,
+	validateTools,
+	tryParseJSONObject,
+} from "../../utils";
 
 suite("Utility Unit Tests", () => {
 	test("convertMessages maps user/assistant text", () => {
@@ -23,6 +29,100 @@ suite("Utility Unit Tests", () => {
 		]);
 	});
 
+	test("convertMessages drops inline reasoning from assistant history", () => {
+		const messages: vscode.LanguageModelChatMessage[] = [
+			{
+				role: vscode.LanguageModelChatMessageRole.Assistant,
+				content: [
+					new vscode.LanguageModelTextPart("<details><summary>Thinking</summary>\n\nHmm"),
+					new vscode.LanguageModelTextPart("\n\n</details>\n\nThe answer"),
+				],
+				name: undefined,
+			},
+		];
+		const out = convertMessages(messages) as unknown as Record<string, unknown>[];
+		assert.deepEqual(out, [{ role: "assistant", content: "The answer" }]);
+	});
+
+	test("convertMessages sends PDFs only when the model accepts PDF input", () => {
+		const messages: vscode.LanguageModelChatMessage[] = [
+			{
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [
+					new vscode.LanguageModelTextPart("summarize"),
+					new vscode.LanguageModelDataPart(new Uint8Array([37, 80, 68, 70]), "application/pdf"),
+				],
+				name: undefined,
+			},
+		];
+
+		assert.deepEqual(convertMessages(messages), [
+			{ role: "user", content: `summarize\n${omittedAttachmentText("application/pdf")}\n` },
+		]);
+		assert.strictEqual(
+			omittedAttachmentText("application/pdf"),
+			"[Attachment omitted: the model does not accept application/pdf input]"
+		);
+		assert.deepEqual(convertMessages(messages, { pdfInput: true }), [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "summarize" },
+					{
+						type: "file",
+						file: { filename: "attachment-1.pdf", file_data: "data:application/pdf;base64,JVBERg==" },
+					},
+				],
+			},
+		]);
+	});
+
+	test("convertMessages inlines text and JSON data parts as fenced text", () => {
+		const messages: vscode.LanguageModelChatMessage[] = [
+			{
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [
+					new vscode.LanguageModelTextPart("compare"),
+					new vscode.LanguageModelDataPart(new TextEncoder().encode('{"a":1}'), "application/json"),
+					new vscode.LanguageModelDataPart(new TextEncoder().encode("hi"), "text/plain"),
+					new vscode.LanguageModelDataPart(new Uint8Array([0]), "cache_control"),
+				],
+				name: undefined,
+			},
+		];
+
+		const out = convertMessages(messages) as unknown as Record<string, unknown>[];
+		assert.deepEqual(out, [{ role: "user", content: 'compare\n```json\n{"a":1}\n```\n\n```\nhi\n```\n' }]);
+	});
+
+	test("convertMessages sends audio as input_audio and validateRequest rejects it for other models", () => {
+		const messages: vscode.LanguageModelChatMessage[] = [
+			{
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [
+					new vscode.LanguageModelTextPart("transcribe"),
+					new vscode.LanguageModelDataPart(new Uint8Array([1, 2, 3]), "audio/wav"),
+				],
+				name: undefined,
+			},
+		];
+
+		assert.deepEqual(convertMessages(messages, { audioInput: true }), [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "transcribe" },
+					{ type: "input_audio", input_audio: { data: "AQID", format: "wav" } },
+				],
+			},
+		]);
+		assert.doesNotThrow(() => validateRequest(messages, { audioInput: true }));
+		assert.throws(() => validateRequest(messages), /does not accept audio input/);
+
+		const ogg = [{ ...messages[0], content: [new vscode.LanguageModelDataPart(new Uint8Array([1]), "audio/ogg")] }];
+		assert.throws(() => validateRequest(ogg, { audioInput: true }), /audio\/ogg audio is not supported/);
+	});
+
 	test("tryParseJSONObject handles valid and invalid JSON", () => {
 		assert.deepEqual(tryParseJSONObject('{"a":1}'), { ok: true, value: { a: 1 } });
 		assert.deepEqual(tryParseJSONObject("[1,2,3]"), { ok: false });
@@ -13,17 +13,36 @@ export interface OpenAIToolCall {
 export interface OpenAIFunctionToolDef {
 	type: "function";
 	function: { name: string; description?: string; parameters?: object };
+	cache_control?: CacheControl;
 }
 
 /**
- * Content item for vision/image support in OpenAI messages
+ * Anthropic prompt cache breakpoint; LiteLLM passes it through to Claude.
+ */
+export interface CacheControl {
+	type: "ephemeral";
+}
+
+/**
+ * Content item for vision/image and file support in OpenAI messages
  */
 export interface OpenAIChatMessageContentItem {
-	type: "text" | "image_url";
+	type: "text" | "image_url" | "file" | "input_audio";
 	text?: string;
 	image_url?: {
 		url: string;
 	};
+	/** Inline file as a `data:` URL, e.g. a PDF. */
+	file?: {
+		filename?: string;
+		file_data: string;
+	};
+	/** Base64 audio without a `data:` prefix. */
+	input_audio?: {
+		data: string;
+		format: "wav" | "mp3";
+	};
+	cache_control?: CacheControl;
 }
 
 /**
@@ -56,8 +75,87 @@ export interface LiteLLMParams {
 export interface LiteLLMConfig {
 	url: string;
 	key?: string;
+	/** Extra headers sent with every request to the proxy. */
+	headers?: Record<string, string>;
+	/** `metadata` added to the body of chat requests, e.g. for LiteLLM tags and spend tracking. */
+	metadata?: Record<string, unknown>;
 }
 
+/**
+ * Extra headers and request metadata for a profile, from `litellm-connector.requestOptions`. Strings
+ * may reference variables such as `${workspaceName}` or `${env:NAME}`.
+ */
+export interface ProfileRequestOptions {
+	headers: Record<string, string>;
+	metadata: Record<string, unknown>;
+}
+
+/**
+ * How requests to a profile's proxy are authenticated, from `litellm-connector.auth`. `apiKey` sends the
+ * key stored for the profile, `command` sends the token a command prints, and `oauth` signs in with the
+ * OAuth device authorization flow.
+ */
+export type AuthSettings =
+	| { type: "apiKey" }
+	| { type: "command"; command: string }
+	| { type: "oauth"; deviceAuthorizationUrl: string; tokenUrl: string; clientId: string; scopes: string[] };
+
+/**
+ * Named LiteLLM proxy profile. The base URL and API key for each profile live in secret storage.
+ */
+export interface LiteLLMProfile {
+	id: string;
+	name: string;
+	enabled: boolean;
+}
+
+/**
+ * Which profiles contribute models to the chat model picker.
+ */
+export type LiteLLMModelSource = "activeProfile" | "allEnabledProfiles";
+
+/**
+ * Which `/model/info` entries are offered in the model picker. Globs match the model name.
+ */
+export interface ModelFilterSettings {
+	include: string[];
+	exclude: string[];
+	/** `model_info.mode` values to list. Entries without a mode are treated as chat models. */
+	modes: string[];
+	/** When non-empty, only deployments tagged with at least one of these tags are listed. */
+	tags: string[];
+	/** Display names keyed by model name. */
+	aliases: Record<string, string>;
+}
+
+/**
+ * Summarization of conversation turns that no longer fit the context window.
+ */
+export interface SummarizationSettings {
+	enabled: boolean;
+	/** Proxy model that writes the summary; undefined to use the chat model itself. */
+	model: string | undefined;
+}
+
+/**
+ * Generation settings for models matching a glob in `litellm-connector.modelDefaults`.
+ */
+export interface ModelDefaults {
+	temperature?: number;
+	top_p?: number;
+	frequency_penalty?: number;
+	presence_penalty?: number;
+	max_tokens?: number;
+	stop?: string | string[];
+	/** Additional top-level request fields, e.g. `seed`, `metadata` or `user`. */
+	extra_body?: Record<string, unknown>;
+}
+
+/**
+ * Parameter support forced by the user, keyed by model name glob, then by parameter name.
+ */
+export type ParameterOverrides = Record<string, Record<string, boolean>>;
+
 /**
  * Detailed model information from LiteLLM proxy including capabilities and token constraints.
  */
@@ -113,6 +211,7 @@ export interface OpenAIChatCompletionRequest {
 	model: string;
 	messages: OpenAIChatMessage[];
 	stream?: boolean;
+	stream_options?: { include_usage?: boolean };
 	max_tokens?: number;
 	temperature?: number;
 	top_p?: number;
@@ -121,8 +220,53 @@ export interface OpenAIChatCompletionRequest {
 	stop?: string | string[];
 	tools?: OpenAIFunctionToolDef[];
 	tool_choice?: string | object;
+	reasoning_effort?: ReasoningEffort;
+	thinking?: { type: "enabled"; budget_tokens: number };
+	response_format?: ResponseFormat;
+	/** Additional top-level fields sent as is, e.g. `seed` or `metadata`. Fields above take precedence. */
+	extra_body?: Record<string, unknown>;
 }
 
+/**
+ * Structured output requested through `response_format`, as in the OpenAI chat completions API.
+ */
+export type ResponseFormat =
+	| { type: "text" }
+	| { type: "json_object" }
+	| {
+			type: "json_schema";
+			json_schema: { name: string; description?: string; schema?: Record<string, unknown>; strict?: boolean };
+	  };
+
+/**
+ * Reasoning effort accepted by reasoning models through LiteLLM's `reasoning_effort` parameter.
+ */
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/**
+ * Request body for the LiteLLM /utils/token_counter endpoint. Either a prompt or messages is sent.
+ */
+export interface LiteLLMTokenCountRequest {
+	model: string;
+	prompt?: string;
+	messages?: OpenAIChatMessage[];
+}
+
+/**
+ * Response from the LiteLLM /utils/token_counter endpoint.
+ */
+export interface LiteLLMTokenCountResponse {
+	total_tokens: number;
+	request_model?: string;
+	model_used?: string;
+	tokenizer_type?: string;
+}
+
+/**
+ * How prompt tokens are counted for `provideTokenCount` and context trimming.
+ */
+export type TokenCountingMode = "local" | "proxy";
+
 /**
  * LiteLLM /responses endpoint request.
  */
@@ -139,16 +283,41 @@ export interface LiteLLMResponsesRequest {
 	stop?: string | string[];
 	tools?: LiteLLMResponseTool[];
 	tool_choice?: string | object;
+	reasoning?: { effort: ReasoningEffort; summary?: "auto" | "concise" | "detailed" };
+	previous_response_id?: string;
+	text?: { format: LiteLLMResponseTextFormat };
 }
 
+/**
+ * Output format of a /responses request; the JSON schema fields sit directly on the format.
+ */
+export type LiteLLMResponseTextFormat =
+	| { type: "text" }
+	| { type: "json_object" }
+	| {
+			type: "json_schema";
+			name: string;
+			description?: string;
+			schema?: Record<string, unknown>;
+			strict?: boolean;
+	  };
+
 /**
  * Input item for LiteLLM /responses endpoint.
  */
 export type LiteLLMResponseInputItem =
-	| { type: "message"; role: string; content: string }
-	| { type: "function_call"; id: string; name: string; arguments: string }
+	| { type: "message"; role: string; content: string | LiteLLMResponseContentItem[] }
+	| { type: "function_call"; id: string; call_id: string; name: string; arguments: string }
 	| { type: "function_call_output"; call_id: string; output: string };
 
+/**
+ * Content of a multi-part /responses input message.
+ */
+export type LiteLLMResponseContentItem =
+	| { type: "input_text"; text: string }
+	| { type: "input_image"; image_url: string; detail: "auto" | "low" | "high" }
+	| { type: "input_file"; filename?: string; file_data: string };
+
 /**
  * Tool definition for LiteLLM /responses endpoint.
  */
@@ -159,6 +328,49 @@ export interface LiteLLMResponseTool {
 	parameters: object;
 }
 
+/**
+ * Token usage and cost reported for a single chat response.
+ */
+export interface ResponseUsage {
+	promptTokens: number;
+	completionTokens: number;
+	/** Prompt tokens read from the provider's prompt cache. */
+	cachedTokens: number;
+	/** Prompt tokens written to the provider's prompt cache. */
+	cacheWriteTokens: number;
+	/** Cost in USD as reported by the proxy, when known. */
+	cost?: number;
+}
+
+/**
+ * Outcome of a chat request, reported to listeners such as the status bar.
+ */
+export interface ChatRequestOutcome {
+	modelId: string;
+	latencyMs: number;
+	usage?: ResponseUsage;
+	/** HTTP status of a failed request, when the proxy answered. */
+	errorStatus?: number;
+	error?: string;
+}
+
+/**
+ * Connection state of the active proxy.
+ */
+export type ProxyHealth = "reachable" | "unreachable" | "authFailed" | "unconfigured";
+
+/**
+ * Accumulated usage for one model on one day.
+ */
+export interface UsageTotals {
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	cachedTokens: number;
+	cacheWriteTokens: number;
+	cost: number;
+}
+
 /**
  * Transformed model item for internal use.
  */
@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import type { ChatRequestOutcome, ProxyHealth } from "../types";
+import { ConfigManager } from "../config/configManager";
+import { LiteLLMClient } from "../adapters/litellmClient";
+import { AuthManager } from "../auth/authManager";
+import { logger } from "../logger";
+import { formatCost, formatNumber } from "../usage/usageTracker";
+
+/**
+ * Events the status bar listens to. Implemented by `LiteLLMChatModelProvider`.
+ */
+export interface StatusBarSource {
+	readonly onDidChangeLanguageModelChatInformation: vscode.Event<void>;
+	readonly onDidCompleteRequest: vscode.Event<ChatRequestOutcome>;
+}
+
+const HEALTH_DISPLAY: Record<ProxyHealth, { icon: string; label: string; background?: string }> = {
+	reachable: { icon: "$(check)", label: "Connected" },
+	unreachable: { icon: "$(error)", label: "Proxy unreachable", background: "statusBarItem.errorBackground" },
+	authFailed: { icon: "$(key)", label: "Authentication failed", background: "statusBarItem.warningBackground" },
+	unconfigured: { icon: "$(gear)", label: "Not configured" },
+};
+
+/**
+ * Status bar item showing the health of the active proxy and stats from the last chat request.
+ */
+export class ProxyStatusBar implements vscode.Disposable {
+	static readonly ACTIONS_COMMAND = "litellm-connector.statusBarActions";
+	private static readonly CHECK_INTERVAL_MS = 5 * 60_000;
+
+	private readonly _item: vscode.StatusBarItem;
+	private readonly _disposables: vscode.Disposable[] = [];
+	private readonly _timer: ReturnType<typeof setInterval>;
+	private _health: ProxyHealth = "unconfigured";
+	private _profile: { name: string; url: string } | undefined;
+	private _lastRequest: ChatRequestOutcome | undefined;
+	private _checkGeneration = 0;
+
+	constructor(
+		private readonly configManager: ConfigManager,
+		private readonly userAgent: string,
+		source: StatusBarSource,
+		private readonly auth: AuthManager = new AuthManager(configManager)
+	) {
+		this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+		this._item.command = ProxyStatusBar.ACTIONS_COMMAND;
+		this._item.name = "LiteLLM";
+		this.render();
+		this._item.show();
+
+		this._disposables.push(
+			// Profile edits, switches and model refreshes can all change which proxy is in use
+			source.onDidChangeLanguageModelChatInformation(() => void this.refresh()),
+			source.onDidCompleteRequest((outcome) => this.onRequestCompleted(outcome))
+		);
+		this._timer = setInterval(() => void this.refresh(), ProxyStatusBar.CHECK_INTERVAL_MS);
+		void this.refresh();
+	}
+
+	get health(): ProxyHealth {
+		return this._health;
+	}
+
+	/**
+	 * Re-check the active proxy. Results of an older check that finishes late are discarded.
+	 */
+	async refresh(): Promise<void> {
+		const generation = ++this._checkGeneration;
+		const profile = await this.configManager.getActiveProfile();
+		const config = await this.configManager.getProfileConfig(profile.id);
+
+		let health: ProxyHealth = "unconfigured";
+		if (config.url) {
+			try {
+				health = await new LiteLLMClient(await this.auth.authorize(profile.id, config), this.userAgent).checkHealth();
+			} catch (err) {
+				logger.warn(`Could not get a token for profile "${profile.name}"`, err);
+				health = "authFailed";
+			}
+		}
+		if (generation !== this._checkGeneration) {
+			return;
+		}
+
+		this._profile = config.url ? { name: profile.name, url: config.url } : undefined;
+		this._health = health;
+		this.render();
+	}
+
+	dispose(): void {
+		clearInterval(this._timer);
+		this._disposables.forEach((d) => d.dispose());
+		this._item.dispose();
+	}
+
+	private onRequestCompleted(outcome: ChatRequestOutcome): void {
+		this._lastRequest = outcome;
+		if (outcome.errorStatus === 401 || outcome.errorStatus === 403) {
+			this._health = "authFailed";
+		} else if (outcome.error === undefined || outcome.errorStatus !== undefined) {
+			// The proxy answered, so it is reachable even if the model request failed
+			this._health = "reachable";
+		} else {
+			void this.refresh();
+		}
+		this.render();
+	}
+
+	private render(): void {
+		const display = HEALTH_DISPLAY[this._health];
+		this._item.text = `${display.icon} LiteLLM`;
+		this._item.backgroundColor = display.background ? new vscode.ThemeColor(display.background) : undefined;
+
+		const tooltip = new vscode.MarkdownString(`**LiteLLM:** ${display.label}\n\n`);
+		if (this._profile) {
+			tooltip.appendText(`Profile: ${this._profile.name} (${this._profile.url})\n\n`);
+		}
+		const last = this._lastRequest;
+		if (last) {
+			const stats = [`${(last.latencyMs / 1000).toFixed(1)} s`];
+			if (last.usage) {
+				stats.push(
+					`${formatNumber(last.usage.promptTokens)} prompt / ${formatNumber(last.usage.completionTokens)} completion tokens`
+				);
+				if (last.usage.cost !== undefined) {
+					stats.push(formatCost(last.usage.cost));
+				}
+			}
+			tooltip.appendText(`Last request: ${last.modelId} · ${stats.join(" · ")}\n\n`);
+			if (last.error) {
+				tooltip.appendText(`Last error: ${last.error}\n\n`);
+			}
+		}
+		tooltip.appendMarkdown("_Click for actions_");
+		this._item.tooltip = tooltip;
+	}
+}
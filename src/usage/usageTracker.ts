@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import type { ResponseUsage, UsageTotals } from "../types";
+
+/** Usage keyed by day (`YYYY-MM-DD`, local time) and then by model id. */
+type UsageStore = Record<string, Record<string, UsageTotals>>;
+
+/**
+ * Persists per-model, per-day token usage and cost in extension global state.
+ */
+export class UsageTracker {
+	private static readonly STORAGE_KEY = "litellm-connector.usage";
+	/** Days of history kept; older days are dropped when a new request is recorded. */
+	static readonly RETENTION_DAYS = 90;
+
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	/**
+	 * Add one request's usage to today's totals for the model.
+	 */
+	async record(modelId: string, usage: ResponseUsage, now: Date = new Date()): Promise<void> {
+		const store = this.load();
+		const day = UsageTracker.dayKey(now);
+		const models = (store[day] ??= {});
+		const totals = (models[modelId] ??= UsageTracker.emptyTotals());
+
+		totals.requests += 1;
+		totals.promptTokens += usage.promptTokens;
+		totals.completionTokens += usage.completionTokens;
+		totals.cachedTokens += usage.cachedTokens;
+		totals.cacheWriteTokens = (totals.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
+		totals.cost += usage.cost ?? 0;
+
+		const oldest = UsageTracker.dayKey(new Date(now.getTime() - UsageTracker.RETENTION_DAYS * 86_400_000));
+		for (const key of Object.keys(store)) {
+			if (key < oldest) {
+				delete store[key];
+			}
+		}
+
+		await this.state.update(UsageTracker.STORAGE_KEY, store);
+		this._onDidChange.fire();
+	}
+
+	/**
+	 * Usage totals grouped by day and by model, plus a grand total. Days are newest first.
+	 */
+	getSummary(): {
+		total: UsageTotals;
+		byModel: Record<string, UsageTotals>;
+		byDay: { day: string; totals: UsageTotals }[];
+	} {
+		const store = this.load();
+		const total = UsageTracker.emptyTotals();
+		const byModel: Record<string, UsageTotals> = {};
+		const byDay: { day: string; totals: UsageTotals }[] = [];
+
+		for (const day of Object.keys(store).sort().reverse()) {
+			const dayTotals = UsageTracker.emptyTotals();
+			for (const [modelId, totals] of Object.entries(store[day])) {
+				UsageTracker.add(dayTotals, totals);
+				UsageTracker.add((byModel[modelId] ??= UsageTracker.emptyTotals()), totals);
+			}
+			UsageTracker.add(total, dayTotals);
+			byDay.push({ day, totals: dayTotals });
+		}
+
+		return { total, byModel, byDay };
+	}
+
+	/**
+	 * Remove all recorded usage.
+	 */
+	async clear(): Promise<void> {
+		await this.state.update(UsageTracker.STORAGE_KEY, undefined);
+		this._onDidChange.fire();
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+	}
+
+	private load(): UsageStore {
+		// Copy so callers never mutate the cached state value before update() is called
+		const stored = this.state.get<UsageStore>(UsageTracker.STORAGE_KEY);
+		return stored ? (JSON.parse(JSON.stringify(stored)) as UsageStore) : {};
+	}
+
+	private static dayKey(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, "0");
+		const day = String(date.getDate()).padStart(2, "0");
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+
+	private static emptyTotals(): UsageTotals {
+		return { requests: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, cacheWriteTokens: 0, cost: 0 };
+	}
+
+	private static add(target: UsageTotals, source: UsageTotals): void {
+		target.requests += source.requests;
+		target.promptTokens += source.promptTokens;
+		target.completionTokens += source.completionTokens;
+		target.cachedTokens += source.cachedTokens;
+		// Totals stored before cache writes were tracked have no such field
+		target.cacheWriteTokens += source.cacheWriteTokens ?? 0;
+		target.cost += source.cost;
+	}
+}
+
+/**
+ * Format a USD cost, keeping sub-cent amounts visible.
+ */
+export function formatCost(cost: number): string {
+	return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Format a token count with thousands separators.
+ */
+export function formatNumber(value: number): string {
+	return value.toLocaleString("en-US");
+}
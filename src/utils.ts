@@ -6,6 +6,7 @@ import type {
 	OpenAIToolCall,
 	OpenAIChatMessageContentItem,
 } from "./types";
+import { logger } from "./logger";
 
 // Tool calling sanitization helpers
 
@@ -141,13 +142,59 @@ function sanitizeSchema(input: unknown, propName?: string): Record<string, unkno
 	return schema;
 }
 
+/** Markup around reasoning shown inline on VS Code builds without a thinking part. */
+export const REASONING_BLOCK_OPEN = "<details><summary>Thinking</summary>\n\n";
+export const REASONING_BLOCK_CLOSE = "\n\n</details>\n\n";
+
+/**
+ * Remove inline reasoning blocks from assistant text so earlier reasoning is not sent back to the model.
+ */
+export function stripReasoningBlocks(text: string): string {
+	let out = text;
+	let start = out.indexOf(REASONING_BLOCK_OPEN);
+	while (start !== -1) {
+		const end = out.indexOf(REASONING_BLOCK_CLOSE, start);
+		out = end === -1 ? out.slice(0, start) : out.slice(0, start) + out.slice(end + REASONING_BLOCK_CLOSE.length);
+		start = out.indexOf(REASONING_BLOCK_OPEN);
+	}
+	return out;
+}
+
+/**
+ * Options for {@link convertMessages}.
+ */
+export interface ConvertMessagesOptions {
+	/** Send PDF data parts as `file` content items (the model has `supports_pdf_input`). */
+	pdfInput?: boolean;
+	/** Send WAV and MP3 data parts as `input_audio` content items (the model has `supports_audio_input`). */
+	audioInput?: boolean;
+}
+
+const AUDIO_FORMATS: Record<string, "wav" | "mp3"> = {
+	"audio/wav": "wav",
+	"audio/wave": "wav",
+	"audio/x-wav": "wav",
+	"audio/mpeg": "mp3",
+	"audio/mp3": "mp3",
+};
+
+/** Note that takes the place of an attachment the model cannot read, so it knows something is missing. */
+export function omittedAttachmentText(mimeType: string): string {
+	return `[Attachment omitted: the model does not accept ${mimeType} input]`;
+}
+
 /**
  * Convert VS Code chat request messages into OpenAI-compatible message objects.
  * @param messages The VS Code chat messages to convert.
+ * @param options Capabilities of the target model that affect the conversion.
  * @returns OpenAI-compatible messages array.
  */
-export function convertMessages(messages: readonly vscode.LanguageModelChatRequestMessage[]): OpenAIChatMessage[] {
+export function convertMessages(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	options: ConvertMessagesOptions = {}
+): OpenAIChatMessage[] {
 	const out: OpenAIChatMessage[] = [];
+	let pdfCount = 0;
 	for (const m of messages) {
 		const role = mapRole(m);
 		const textParts: string[] = [];
@@ -162,23 +209,33 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 				// Handle image and other data parts
 				if (part.mimeType.startsWith("image/")) {
 					// Convert image data to base64 for OpenAI vision API
-					// Properly handle Uint8Array to ensure cross-platform compatibility
-					let base64Data: string;
-					if (part.data instanceof Uint8Array) {
-						base64Data = Buffer.from(part.data).toString("base64");
-					} else if (typeof part.data === "string") {
-						base64Data = Buffer.from(part.data, "utf-8").toString("base64");
-					} else {
-						base64Data = Buffer.from(part.data as unknown as ArrayBuffer).toString("base64");
-					}
 					contentItems.push({
 						type: "image_url",
 						image_url: {
-							url: `data:${part.mimeType};base64,${base64Data}`,
+							url: `data:${part.mimeType};base64,${dataPartToBase64(part)}`,
+						},
+					});
+				} else if (part.mimeType === "application/pdf" && options.pdfInput) {
+					pdfCount++;
+					contentItems.push({
+						type: "file",
+						file: {
+							filename: `attachment-${pdfCount}.pdf`,
+							file_data: `data:${part.mimeType};base64,${dataPartToBase64(part)}`,
 						},
 					});
+				} else if (AUDIO_FORMATS[part.mimeType] && options.audioInput) {
+					contentItems.push({
+						type: "input_audio",
+						input_audio: { data: dataPartToBase64(part), format: AUDIO_FORMATS[part.mimeType] },
+					});
+				} else if (isTextMimeType(part.mimeType)) {
+					textParts.push(fenceDataPart(part));
+				} else if (part.mimeType.includes("/")) {
+					// MIME types without a slash are request markers (e.g. `cache_control`), not content
+					logger.warn(`Dropped a ${part.mimeType} attachment: the model does not accept this content type.`);
+					textParts.push(`\n${omittedAttachmentText(part.mimeType)}\n`);
 				}
-				// Other data types (json, etc.) can be handled here if needed in the future
 			} else if (part instanceof vscode.LanguageModelToolCallPart) {
 				const id = part.callId || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 				let args = "{}";
@@ -195,6 +252,11 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 			}
 		}
 
+		if (role === "assistant" && textParts.length > 0) {
+			const visible = stripReasoningBlocks(textParts.join(""));
+			textParts.splice(0, textParts.length, ...(visible ? [visible] : []));
+		}
+
 		let emittedAssistantToolCall = false;
 		if (toolCalls.length > 0) {
 			const messageContent = buildMessageContent(textParts, contentItems);
@@ -219,6 +281,38 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 	return out;
 }
 
+/**
+ * Base64 encode the payload of a data part.
+ * Properly handle Uint8Array to ensure cross-platform compatibility
+ */
+function dataPartToBase64(part: vscode.LanguageModelDataPart): string {
+	if (part.data instanceof Uint8Array) {
+		return Buffer.from(part.data).toString("base64");
+	}
+	if (typeof part.data === "string") {
+		return Buffer.from(part.data, "utf-8").toString("base64");
+	}
+	return Buffer.from(part.data as unknown as ArrayBuffer).toString("base64");
+}
+
+/**
+ * Whether a data part of this MIME type is sent inline as text.
+ */
+export function isTextMimeType(mimeType: string): boolean {
+	return mimeType.startsWith("text/") || mimeType === "application/json";
+}
+
+/**
+ * Inline a textual data part as a fenced code block, tagged with its language where the MIME type names one.
+ */
+function fenceDataPart(part: vscode.LanguageModelDataPart): string {
+	const text =
+		typeof part.data === "string" ? part.data : Buffer.from(part.data as unknown as ArrayBuffer).toString("utf-8");
+	const subtype = part.mimeType.split("/")[1].replace(/^x-/, "");
+	const language = subtype === "plain" ? "" : subtype;
+	return `\n\`\`\`${language}\n${text}\n\`\`\`\n`;
+}
+
 /**
  * Build message content from text and content items.
  * If there are content items (images), return an array format.
@@ -276,7 +370,7 @@ export function convertTools(options: vscode.ProvideLanguageModelChatResponseOpt
 	let tool_choice: "auto" | { type: "function"; function: { name: string } } = "auto";
 	if (options.toolMode === vscode.LanguageModelChatToolMode.Required) {
 		if (tools.length !== 1) {
-			console.error("[LiteLLM Model Provider] ToolMode.Required but multiple tools:", tools.length);
+			logger.error(`ToolMode.Required but multiple tools: ${tools.length}`);
 			throw new Error("LanguageModelChatToolMode.Required is not supported with more than one tool");
 		}
 		tool_choice = { type: "function", function: { name: sanitizeFunctionName(tools[0].name) } };
@@ -292,7 +386,7 @@ export function convertTools(options: vscode.ProvideLanguageModelChatResponseOpt
 export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): void {
 	for (const tool of tools) {
 		if (!tool.name.match(/^[\w-]+$/)) {
-			console.error("[LiteLLM Model Provider] Invalid tool name detected:", tool.name);
+			logger.error(`Invalid tool name detected: ${tool.name}`);
 			throw new Error(
 				`Invalid tool name "${tool.name}": only alphanumeric characters, hyphens, and underscores are allowed.`
 			);
@@ -301,16 +395,34 @@ export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): v
 }
 
 /**
- * Validate the request message sequence for correct tool call/result pairing.
+ * Validate the request message sequence for correct tool call/result pairing and for audio the model can take.
  * @param messages The full request message list.
+ * @param options Capabilities of the target model, as passed to {@link convertMessages}.
  */
-export function validateRequest(messages: readonly vscode.LanguageModelChatRequestMessage[]): void {
+export function validateRequest(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	options: ConvertMessagesOptions = {}
+): void {
 	const lastMessage = messages[messages.length - 1];
 	if (!lastMessage) {
-		console.error("[LiteLLM Model Provider] No messages in request");
+		logger.error("No messages in request");
 		throw new Error("Invalid request: no messages.");
 	}
 
+	for (const message of messages) {
+		for (const part of message.content) {
+			if (!(part instanceof vscode.LanguageModelDataPart) || !part.mimeType.startsWith("audio/")) {
+				continue;
+			}
+			if (!options.audioInput) {
+				throw new Error("Invalid request: this model does not accept audio input. Choose a model with audio support.");
+			}
+			if (!AUDIO_FORMATS[part.mimeType]) {
+				throw new Error(`Invalid request: ${part.mimeType} audio is not supported; attach WAV or MP3 audio instead.`);
+			}
+		}
+	}
+
 	messages.forEach((message, i) => {
 		if (message.role === vscode.LanguageModelChatMessageRole.Assistant) {
 			const toolCallIds = new Set(
@@ -328,10 +440,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 			while (toolCallIds.size > 0) {
 				const nextMessage = messages[nextMessageIdx++];
 				if (!nextMessage || nextMessage.role !== vscode.LanguageModelChatMessageRole.User) {
-					console.error(
-						"[LiteLLM Model Provider] Validation failed: missing tool result for call IDs:",
-						Array.from(toolCallIds)
-					);
+					logger.error(`Validation failed: missing tool result for call IDs: ${Array.from(toolCallIds).join(", ")}`);
 					throw new Error(errMsg);
 				}
 
@@ -340,7 +449,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 						const ctorName =
 							(Object.getPrototypeOf(part as object) as { constructor?: { name?: string } } | undefined)?.constructor
 								?.name ?? typeof part;
-						console.error("[LiteLLM Model Provider] Validation failed: expected tool result part, got:", ctorName);
+						logger.error(`Validation failed: expected tool result part, got: ${ctorName}`);
 						throw new Error(errMsg);
 					}
 					const callId = (part as { callId: string }).callId;